@@ -3,8 +3,17 @@ import React, { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 
+// A plan-view drawing to lay over the top view, as an SVG whose viewBox
+// covers `bounds` in the model's own x and y
+export interface PlanOverlay {
+  svg: string;
+  bounds: { x: number; y: number; length: number; width: number };
+}
+
 interface STLViewerProps {
-  url: string;
+  // An STL file to fetch, or a model built in the browser
+  url?: string;
+  geometry?: THREE.BufferGeometry | null;
   width?: number | string;
   height?: number | string;
   modelcolor?: string;
@@ -12,11 +21,38 @@ interface STLViewerProps {
   rotate?: string | boolean;
   orbitcontrols?: string | boolean;
   shadows?: string | boolean;
+  // Show the overall size and let the user measure between two points
+  measure?: boolean;
+  // Writes a length in millimetres in the user's units
+  formatLength?: (mm: number) => string;
+  // Offer a square-on view from above with this drawing over it
+  overlay?: PlanOverlay | null;
   style?: React.CSSProperties;
 }
 
+// How close, in pixels, a click must be to a corner or edge to snap to it
+const SNAP_PIXELS = 10;
+// A press that moves further than this is a drag of the view, not a click
+const CLICK_TOLERANCE = 4;
+// Measurement marker radius, in the scaled scene's units
+const MARKER_RADIUS = 0.05;
+// Space around the model and drawing in the top view
+const TOP_VIEW_MARGIN = 1.05;
+
+const defaultFormatLength = (mm: number) => `${mm.toFixed(1)} mm`;
+
+const toggleStyle = (on: boolean, color: string): React.CSSProperties => ({
+  pointerEvents: 'auto',
+  color: on ? '#fff' : '#333',
+  backgroundColor: on ? color : 'rgba(255, 255, 255, 0.8)',
+  border: '1px solid #cbd5e1',
+  padding: '4px 8px',
+  borderRadius: '4px'
+});
+
 export default function STLViewer({
   url,
+  geometry,
   width = '100%',
   height = '100%',
   modelcolor = '#3b82f6',
@@ -24,6 +60,9 @@ export default function STLViewer({
   rotate = true,
   orbitcontrols = true,
   shadows = true,
+  measure = false,
+  formatLength = defaultFormatLength,
+  overlay,
   style
 }: STLViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -38,6 +77,24 @@ export default function STLViewer({
   const controlsRef = useRef<OrbitControls | null>(null);
   const animationIdRef = useRef<number | null>(null);
 
+  // The model is centered and scaled to fit the view; measurements are taken
+  // in its own coordinates and divided by the scale to give millimetres
+  const scaleRef = useRef(1);
+  const [modelSize, setModelSize] = useState<THREE.Vector3 | null>(null);
+  const [measuring, setMeasuring] = useState(false);
+  const measuringRef = useRef(false);
+  const [points, setPoints] = useState<THREE.Vector3[]>([]);
+  const markersRef = useRef<THREE.Group | null>(null);
+  const pressRef = useRef<{ x: number; y: number } | null>(null);
+
+  // The top view looks straight down through an orthographic camera, with
+  // the model unturned so its x and y line up with the overlay
+  const centerRef = useRef(new THREE.Vector3());
+  const [topView, setTopView] = useState(false);
+  const topViewRef = useRef(false);
+  const topCameraRef = useRef<THREE.OrthographicCamera | null>(null);
+  const [overlayFrame, setOverlayFrame] = useState<React.CSSProperties | null>(null);
+
   useEffect(() => {
     // Clear any previous error
     setError(null);
@@ -101,20 +158,17 @@ export default function STLViewer({
         controlsRef.current = controls;
       }
       
-      // Load STL file
-      loadSTL(url, scene);
-      
       // Animation loop
       const animate = () => {
         if (controlsRef.current) {
           controlsRef.current.update();
         }
         
-        if (modelRef.current && (rotate === true || rotate === 'true')) {
+        if (modelRef.current && (rotate === true || rotate === 'true') && !measuringRef.current && !topViewRef.current) {
           modelRef.current.rotation.y += 0.01;
         }
         
-        renderer.render(scene, camera);
+        renderer.render(scene, topCameraRef.current ?? camera);
         animationIdRef.current = requestAnimationFrame(animate);
       };
       
@@ -139,20 +193,10 @@ export default function STLViewer({
         }
       }
       
-      if (modelRef.current && sceneRef.current) {
-        try {
-          sceneRef.current.remove(modelRef.current);
-          if (modelRef.current.geometry) modelRef.current.geometry.dispose();
-          if (modelRef.current.material) {
-            if (Array.isArray(modelRef.current.material)) {
-              modelRef.current.material.forEach(m => m.dispose());
-            } else {
-              modelRef.current.material.dispose();
-            }
-          }
-        } catch (e) {
-          console.error('Error cleaning up model:', e);
-        }
+      try {
+        removeModel();
+      } catch (e) {
+        console.error('Error cleaning up model:', e);
       }
       
       if (rendererRef.current) {
@@ -163,7 +207,235 @@ export default function STLViewer({
         }
       }
     };
-  }, [url, width, height, backgroundcolor, modelcolor, rotate, orbitcontrols, shadows]);
+  }, [width, height, backgroundcolor, rotate, orbitcontrols, shadows]);
+
+  // Load the model into the scene set up above; a new model replaces the old
+  // one without setting up the renderer again, so a live preview can update
+  // on every change
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene || !rendererRef.current) return;
+    if (geometry) {
+      showModel(geometry.clone(), scene);
+    } else if (url) {
+      loadSTL(url, scene);
+    } else {
+      removeModel();
+      setLoading(false);
+    }
+  }, [url, geometry, modelcolor, width, height, backgroundcolor, rotate, orbitcontrols, shadows]);
+
+  // Frame the model and the drawing from above, and place the drawing over
+  // the model in pixels
+  useEffect(() => {
+    topViewRef.current = topView;
+    if (controlsRef.current) controlsRef.current.enabled = !topView;
+    const container = containerRef.current;
+    const model = modelRef.current;
+    if (!topView || !container || !model || !modelSize) {
+      topCameraRef.current = null;
+      setOverlayFrame(null);
+      return;
+    }
+    model.rotation.set(0, 0, 0);
+
+    const scale = scaleRef.current;
+    const center = centerRef.current;
+    const box = new THREE.Box2(
+      new THREE.Vector2(-modelSize.x * scale / 2, -modelSize.y * scale / 2),
+      new THREE.Vector2(modelSize.x * scale / 2, modelSize.y * scale / 2)
+    );
+    const drawing = overlay
+      ? new THREE.Box2(
+          new THREE.Vector2((overlay.bounds.x - center.x) * scale, (overlay.bounds.y - center.y) * scale),
+          new THREE.Vector2(
+            (overlay.bounds.x + overlay.bounds.length - center.x) * scale,
+            (overlay.bounds.y + overlay.bounds.width - center.y) * scale
+          )
+        )
+      : null;
+    if (drawing) box.union(drawing);
+
+    const aspect = container.clientWidth / container.clientHeight;
+    const middle = box.getCenter(new THREE.Vector2());
+    const size = box.getSize(new THREE.Vector2());
+    const halfHeight = Math.max(size.y / 2, size.x / 2 / aspect) * TOP_VIEW_MARGIN;
+    const halfWidth = halfHeight * aspect;
+    const camera = new THREE.OrthographicCamera(
+      middle.x - halfWidth, middle.x + halfWidth,
+      middle.y + halfHeight, middle.y - halfHeight,
+      0.1, 100
+    );
+    camera.position.z = 20;
+    topCameraRef.current = camera;
+
+    const pixels = container.clientWidth / (2 * halfWidth);
+    setOverlayFrame(drawing && {
+      left: (drawing.min.x - (middle.x - halfWidth)) * pixels,
+      top: (middle.y + halfHeight - drawing.max.y) * pixels,
+      width: (drawing.max.x - drawing.min.x) * pixels,
+      height: (drawing.max.y - drawing.min.y) * pixels
+    });
+  }, [topView, modelSize, overlay]);
+
+  // Markers at the picked points and a line between them, drawn over the
+  // model and turning with it
+  useEffect(() => {
+    const model = modelRef.current;
+    clearMarkers();
+    if (!model || points.length === 0) return;
+
+    const group = new THREE.Group();
+    const material = new THREE.MeshBasicMaterial({ color: 0xef4444, depthTest: false });
+    for (const point of points) {
+      const marker = new THREE.Mesh(new THREE.SphereGeometry(MARKER_RADIUS, 16, 8), material);
+      marker.position.copy(point);
+      marker.renderOrder = 1;
+      group.add(marker);
+    }
+    if (points.length === 2) {
+      const line = new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints(points),
+        new THREE.LineBasicMaterial({ color: 0xef4444, depthTest: false })
+      );
+      line.renderOrder = 1;
+      group.add(line);
+    }
+    model.add(group);
+    markersRef.current = group;
+  }, [points]);
+
+  useEffect(() => {
+    measuringRef.current = measuring;
+    if (!measuring) setPoints([]);
+  }, [measuring]);
+
+  const clearMarkers = () => {
+    const group = markersRef.current;
+    if (!group) return;
+    group.parent?.remove(group);
+    group.traverse(object => {
+      if (object instanceof THREE.Mesh || object instanceof THREE.Line) {
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+      }
+    });
+    markersRef.current = null;
+  };
+
+  // The point on the model under the pointer, snapped to the nearest corner
+  // or edge of the face it hits when one is close on screen, in the model's
+  // own coordinates
+  const pickPoint = (clientX: number, clientY: number): THREE.Vector3 | null => {
+    const renderer = rendererRef.current;
+    const camera = topCameraRef.current ?? cameraRef.current;
+    const model = modelRef.current;
+    if (!renderer || !camera || !model) return null;
+
+    const rect = renderer.domElement.getBoundingClientRect();
+    const click = new THREE.Vector2(clientX - rect.left, clientY - rect.top);
+    const raycaster = new THREE.Raycaster();
+    raycaster.setFromCamera(
+      new THREE.Vector2((click.x / rect.width) * 2 - 1, -(click.y / rect.height) * 2 + 1),
+      camera
+    );
+    const [hit] = raycaster.intersectObject(model, false);
+    if (!hit || !hit.face) return null;
+
+    const onScreen = (point: THREE.Vector3) => {
+      const projected = point.clone().project(camera);
+      return new THREE.Vector2((projected.x + 1) / 2 * rect.width, (1 - projected.y) / 2 * rect.height).distanceTo(click);
+    };
+    const nearest = (candidates: THREE.Vector3[]) =>
+      candidates.reduce((best, point) => onScreen(point) < onScreen(best) ? point : best);
+
+    const position = model.geometry.getAttribute('position');
+    const corners = [hit.face.a, hit.face.b, hit.face.c]
+      .map(i => new THREE.Vector3().fromBufferAttribute(position, i).applyMatrix4(model.matrixWorld));
+    const edges = corners.map((corner, i) =>
+      new THREE.Line3(corner, corners[(i + 1) % 3]).closestPointToPoint(hit.point, true, new THREE.Vector3()));
+
+    const corner = nearest(corners);
+    const edge = nearest(edges);
+    const snapped = onScreen(corner) <= SNAP_PIXELS ? corner
+      : onScreen(edge) <= SNAP_PIXELS ? edge
+      : hit.point;
+    return model.worldToLocal(snapped.clone());
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    pressRef.current = { x: event.clientX, y: event.clientY };
+  };
+
+  // A third point starts a new measurement
+  const handlePointerUp = (event: React.PointerEvent) => {
+    const press = pressRef.current;
+    pressRef.current = null;
+    if (!measuring || !press || event.target !== rendererRef.current?.domElement) return;
+    if (Math.hypot(event.clientX - press.x, event.clientY - press.y) > CLICK_TOLERANCE) return;
+    const point = pickPoint(event.clientX, event.clientY);
+    if (point) setPoints(current => current.length === 1 ? [current[0], point] : [point]);
+  };
+
+  const removeModel = () => {
+    clearMarkers();
+    if (modelRef.current && sceneRef.current) {
+      sceneRef.current.remove(modelRef.current);
+      if (modelRef.current.geometry) modelRef.current.geometry.dispose();
+      if (modelRef.current.material) {
+        if (Array.isArray(modelRef.current.material)) {
+          modelRef.current.material.forEach(m => m.dispose());
+        } else {
+          modelRef.current.material.dispose();
+        }
+      }
+    }
+    modelRef.current = null;
+  };
+
+  // Center and scale a model, then put it in the scene in place of any other
+  const showModel = (geometry: THREE.BufferGeometry, scene: THREE.Scene) => {
+    // Center geometry
+    geometry.computeBoundingBox();
+    setPoints([]);
+    setModelSize(geometry.boundingBox ? geometry.boundingBox.getSize(new THREE.Vector3()) : null);
+    scaleRef.current = 1;
+    if (geometry.boundingBox) {
+      const center = new THREE.Vector3();
+      geometry.boundingBox.getCenter(center);
+      centerRef.current = center.clone();
+      geometry.translate(-center.x, -center.y, -center.z);
+      
+      // Scale to reasonable size
+      const maxDim = Math.max(
+        geometry.boundingBox.max.x - geometry.boundingBox.min.x,
+        geometry.boundingBox.max.y - geometry.boundingBox.min.y,
+        geometry.boundingBox.max.z - geometry.boundingBox.min.z
+      );
+      const scale = 6 / maxDim; // Increased scale factor for better visibility
+      geometry.scale(scale, scale, scale);
+      scaleRef.current = scale;
+    }
+    
+    // Create material and mesh
+    const material = new THREE.MeshPhongMaterial({
+      color: modelcolor as string,
+      specular: 0x111111,
+      shininess: 200,
+      side: THREE.DoubleSide
+    });
+    
+    const mesh = new THREE.Mesh(geometry, material);
+    
+    // Remove any existing model
+    removeModel();
+    
+    // Add new model to scene
+    scene.add(mesh);
+    modelRef.current = mesh;
+    
+    setLoading(false);
+  };
   
   // Function to safely load and process STL file
   const loadSTL = (url: string, scene: THREE.Scene) => {
@@ -178,53 +450,7 @@ export default function STLViewer({
       .then(buffer => {
         try {
           // Create a local loader that doesn't depend on external class
-          const geometry = parseSTL(buffer);
-          
-          // Center geometry
-          geometry.computeBoundingBox();
-          if (geometry.boundingBox) {
-            const center = new THREE.Vector3();
-            geometry.boundingBox.getCenter(center);
-            geometry.translate(-center.x, -center.y, -center.z);
-            
-            // Scale to reasonable size
-            const maxDim = Math.max(
-              geometry.boundingBox.max.x - geometry.boundingBox.min.x,
-              geometry.boundingBox.max.y - geometry.boundingBox.min.y,
-              geometry.boundingBox.max.z - geometry.boundingBox.min.z
-            );
-            const scale = 6 / maxDim; // Increased scale factor for better visibility
-            geometry.scale(scale, scale, scale);
-          }
-          
-          // Create material and mesh
-          const material = new THREE.MeshPhongMaterial({
-            color: modelcolor as string,
-            specular: 0x111111,
-            shininess: 200,
-            side: THREE.DoubleSide
-          });
-          
-          const mesh = new THREE.Mesh(geometry, material);
-          
-          // Remove any existing model
-          if (modelRef.current && sceneRef.current) {
-            sceneRef.current.remove(modelRef.current);
-            if (modelRef.current.geometry) modelRef.current.geometry.dispose();
-            if (modelRef.current.material) {
-              if (Array.isArray(modelRef.current.material)) {
-                modelRef.current.material.forEach(m => m.dispose());
-              } else {
-                modelRef.current.material.dispose();
-              }
-            }
-          }
-          
-          // Add new model to scene
-          scene.add(mesh);
-          modelRef.current = mesh;
-          
-          setLoading(false);
+          showModel(parseSTL(buffer), scene);
         } catch (error) {
           console.error('Error parsing STL:', error);
           setError('Failed to parse STL file. The file may be corrupted or in an unsupported format.');
@@ -448,9 +674,79 @@ export default function STLViewer({
         width, 
         height, 
         position: 'relative',
+        cursor: measuring ? 'crosshair' : undefined,
         ...style
       }}
+      onPointerDown={handlePointerDown}
+      onPointerUp={handlePointerUp}
     >
+      {overlay && overlayFrame && (
+        <img
+          src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(overlay.svg)}`}
+          alt="Dimensioned top view"
+          style={{
+            position: 'absolute',
+            ...overlayFrame,
+            pointerEvents: 'none'
+          }}
+        />
+      )}
+
+      {(measure || overlay) && modelSize && (
+        <div style={{
+          position: 'absolute',
+          top: '8px',
+          left: '8px',
+          right: '8px',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'flex-start',
+          gap: '8px',
+          fontSize: '12px',
+          pointerEvents: 'none'
+        }}>
+          {measure ? (
+            <div style={{
+              color: '#333',
+              backgroundColor: 'rgba(255, 255, 255, 0.8)',
+              padding: '4px 8px',
+              borderRadius: '4px'
+            }}>
+              <div>
+                Overall: {formatLength(modelSize.x)} × {formatLength(modelSize.y)} × {formatLength(modelSize.z)}
+              </div>
+              {measuring && (
+                <div>
+                  {points.length === 2
+                    ? <>Distance: <strong>{formatLength(points[0].distanceTo(points[1]) / scaleRef.current)}</strong></>
+                    : points.length === 1 ? 'Click the second point' : 'Click a point to measure from'}
+                </div>
+              )}
+            </div>
+          ) : <div />}
+          <div style={{ display: 'flex', gap: '4px' }}>
+            {overlay && (
+              <button
+                type="button"
+                onClick={() => setTopView(!topView)}
+                style={toggleStyle(topView, '#2563eb')}
+              >
+                {topView ? '3D view' : 'Top view'}
+              </button>
+            )}
+            {measure && (
+              <button
+                type="button"
+                onClick={() => setMeasuring(!measuring)}
+                style={toggleStyle(measuring, '#ef4444')}
+              >
+                {measuring ? 'Done' : 'Measure'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       {loading && (
         <div style={{
           position: 'absolute',
@@ -0,0 +1,40 @@
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react";
+import { type ManufacturabilityReport as Report } from "@shared/schema";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+
+interface ManufacturabilityReportProps {
+  report: Report;
+}
+
+export function ManufacturabilityReport({ report }: ManufacturabilityReportProps) {
+  const { issues, printer } = report;
+  const printerText = `${printer.bedX} x ${printer.bedY} mm bed, ${printer.nozzle} mm nozzle`;
+
+  if (issues.length === 0) {
+    return (
+      <Alert>
+        <CheckCircle2 className="h-4 w-4" />
+        <AlertTitle>Ready to print</AlertTitle>
+        <AlertDescription>No problems found for a {printerText}.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const hasErrors = issues.some(issue => issue.level === "error");
+  return (
+    <Alert variant={hasErrors ? "destructive" : "default"}>
+      {hasErrors ? <XCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+      <AlertTitle>Check before printing</AlertTitle>
+      <AlertDescription>
+        <p className="mb-2 text-muted-foreground">Checked against a {printerText}.</p>
+        <ul className="list-disc space-y-1 pl-4">
+          {issues.map(issue => (
+            <li key={issue.code} className={issue.level === "error" ? "font-medium" : undefined}>
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,80 @@
+import * as React from "react";
+import { type FractionDenominator } from "@shared/format";
+import { type LengthUnit, type Measurement } from "@shared/units";
+import { Input, type InputProps } from "@/components/ui/input";
+import { formatMeasurementInput, nudgeMeasurement, parseMeasurement } from "@/lib/measurement";
+
+// One arrow-key nudge is the finest fraction shown (or 0.1 mm); Shift
+// nudges four times as far in inches and ten times as far in millimetres
+const nudgeStep = (unit: LengthUnit, precision: FractionDenominator, coarse: boolean) =>
+  unit === "in" ? (coarse ? 4 : 1) / precision : (coarse ? 1 : 0.1);
+
+export interface MeasurementInputProps extends Omit<InputProps, "value" | "onChange" | "type"> {
+  value: Measurement;
+  onChange: (value: Measurement) => void;
+  unit: LengthUnit;
+  precision?: FractionDenominator;
+}
+
+// A text input for lengths that takes fractions, mixed numbers, decimals and
+// unit suffixes. The typed text is kept while editing and replaced by the
+// formatted value once the input loses focus.
+export const MeasurementInput = React.forwardRef<HTMLInputElement, MeasurementInputProps>(
+  ({ value, onChange, unit, precision = 16, onBlur, onKeyDown, ...props }, ref) => {
+    const format = (length: Measurement) => formatMeasurementInput(length, unit, precision);
+    const formatted = format(value);
+    const [text, setText] = React.useState(formatted);
+    const [editing, setEditing] = React.useState(false);
+    const invalid = editing && parseMeasurement(text, unit) === null;
+
+    React.useEffect(() => {
+      if (!editing) setText(formatted);
+    }, [formatted, editing]);
+
+    const commit = (next: string) => {
+      const parsed = parseMeasurement(next, unit);
+      if (parsed) onChange(parsed);
+      return parsed;
+    };
+
+    return (
+      <Input
+        {...props}
+        ref={ref}
+        type="text"
+        inputMode="decimal"
+        autoComplete="off"
+        value={editing ? text : formatted}
+        aria-invalid={invalid || props["aria-invalid"]}
+        onFocus={event => {
+          setText(formatted);
+          setEditing(true);
+          props.onFocus?.(event);
+        }}
+        onChange={event => {
+          setText(event.target.value);
+          commit(event.target.value);
+        }}
+        onBlur={event => {
+          setEditing(false);
+          onBlur?.(event);
+        }}
+        onKeyDown={event => {
+          if (event.key === "ArrowUp" || event.key === "ArrowDown") {
+            event.preventDefault();
+            const current = parseMeasurement(text, unit) ?? value;
+            const step = nudgeStep(unit, precision, event.shiftKey);
+            const next = nudgeMeasurement(current, unit, step, event.key === "ArrowUp" ? 1 : -1);
+            onChange(next);
+            setText(format(next));
+          } else if (event.key === "Enter") {
+            const parsed = commit(text);
+            if (parsed) setText(format(parsed));
+          }
+          onKeyDown?.(event);
+        }}
+      />
+    );
+  },
+);
+MeasurementInput.displayName = "MeasurementInput";
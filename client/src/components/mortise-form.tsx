@@ -1,38 +1,137 @@
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { useMutation } from "@tanstack/react-query";
-import { Download, Ruler } from "lucide-react";
-import { type MortiseTemplate } from "@shared/schema";
+import { Download, FileDown, Plus, Ruler, Trash2 } from "lucide-react";
+import { mortiseTemplateSchema, type ExportFormat, type ManufacturabilityReport as Report, type MortiseTemplate, type RenderJobSnapshot } from "@shared/schema";
 import { formSchema } from "@/lib/validation";
+import { previewGeometry, previewOverlay } from "@/lib/preview-geometry";
 import { Button } from "@/components/ui/button";
-import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
-import { useState } from "react";
-import { StlViewer } from "react-stl-viewer";
+import { useEffect, useMemo, useState } from "react";
+import STLViewer from "@/components/STLViewer";
+import { SavedTemplates } from "@/components/saved-templates";
+import { ManufacturabilityReport } from "@/components/manufacturability-report";
+import { MeasurementInput } from "@/components/measurement-input";
+import { HINGE_CATALOG, HINGE_SIZES } from "@shared/hinges";
+import { convert, inches, millimetres, unitFor } from "@shared/units";
+import { FRACTION_DENOMINATORS, formatDimension, formatInches } from "@shared/format";
+import { drawingSVG, topViewDrawing } from "@shared/drawing";
+import { LABEL_FIELDS, LABEL_FONTS, type LabelField, type LabelFont } from "@shared/label";
 
 const defaultValues: MortiseTemplate = {
   unit_system: "imperial",
-  bushing_OD_in: 0.3125,
-  bit_diameter_in: 0.25,
-  mortise_length_in: 1.75,
-  mortise_width_in: 0.375,
-  edge_distance_in: 0.25,
+  bushing_OD: inches(0.3125),
+  bit_diameter: inches(0.25),
+  mortise_length: inches(1.75),
+  mortise_width: inches(0.375),
+  edge_distance: inches(0.25),
   edge_position: "right",
-  extension_length_in: 3.0,
-  extension_width_in: 3.0,
-  template_thickness_in: 0.25, // Default template thickness (1/4 inch)
+  extension_length: inches(3.0),
+  extension_width: inches(3.0),
+  template_thickness: inches(0.25), // Default template thickness (1/4 inch)
+  template_mode: "mortise",
+  through_thickness: inches(0.75),
+  tilt_angle: 0,
+  splay_angle: 0,
+  mortise_rotation: 0,
+  tenon_thickness: inches(0.25),
+  tenon_width: inches(1.0),
+  tenon_length: inches(2.0),
+  depth_allowance: inches(0.0625),
+  loose_tenon_layout: "pair",
+  reference_marks: true,
+  mortise_count: 1,
+  spacing_mode: "centered",
+  mortise_spacing: inches(3.0),
+  mortise_span: inches(6.0),
+  mortise_offsets: [inches(0)],
+  hinge_size: "3.5x3.5",
+  hinge_leaf_length: inches(3.5),
+  hinge_leaf_width: inches(1.375),
+  hinge_depth: inches(0.095),
+  hinge_corner_radius: inches(0.25),
+  hinge_corners: "radiused",
+  hinge_setback: inches(0),
+  fraction_precision: 64,
+  fraction_style: "fraction",
+  label_title: "",
+  label_fields: [...LABEL_FIELDS],
+  label_font: "Liberation Sans",
+  label_size: 3,
+  label_style: "engrave",
+  centerlines: false,
+  end_ticks: false,
+  sight_notches: false,
+  fence_ruler: false,
+  screw_holes: false,
+  clamp_slots: false,
+  pad_pockets: false,
+  router_base_diameter: inches(6),
+  fence_type: "single",
+  fence_height: inches(0.5),
+  fence_thickness: inches(0.375),
+  stock_thickness: inches(1.75),
+  center_in_stock: true,
+  fence_adjustment: inches(1),
+  end_stop: "none",
+  end_stop_distance: inches(1),
 };
 
-const mmToInch = (mm: number) => mm / 25.4;
-const inchToMm = (inch: number) => inch * 25.4;
+const LABEL_FIELD_NAMES: Record<LabelField, string> = {
+  size: "Mortise, tenon or hinge size",
+  depth: "Depth",
+  corners: "Hinge corners",
+  angles: "Tilt, splay and skew",
+  bushing: "Bushing OD",
+  bit: "Bit diameter",
+  edge: "Edge distance or setback",
+  offset: "Bushing offset",
+  spacing: "Mortise count and spacing",
+};
+
+const LABEL_FONT_NAMES: Record<LabelFont, string> = {
+  "Liberation Sans": "Sans",
+  "Liberation Sans:style=Bold": "Sans Bold",
+  "Liberation Serif": "Serif",
+  "Liberation Mono": "Monospace",
+};
+
+// Follow a render job's event stream until it finishes
+const waitForJob = (id: string, onUpdate: (job: RenderJobSnapshot) => void) =>
+  new Promise<RenderJobSnapshot>((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${id}/events`);
+    source.onmessage = (event) => {
+      const job: RenderJobSnapshot = JSON.parse(event.data);
+      onUpdate(job);
+      if (job.status === "done") {
+        source.close();
+        resolve(job);
+      } else if (job.status === "failed") {
+        source.close();
+        reject(new Error(job.error || "Failed to generate STL file"));
+      }
+    };
+    source.onerror = () => {
+      source.close();
+      reject(new Error("Lost connection to the render job"));
+    };
+  });
 
 export function MortiseForm() {
   const { toast } = useToast();
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [report, setReport] = useState<Report | null>(null);
   const [showPreview, setShowPreview] = useState(false);
+  const [job, setJob] = useState<RenderJobSnapshot | null>(null);
+  const [lastParams, setLastParams] = useState<MortiseTemplate | null>(null);
+  const [colorLabel, setColorLabel] = useState(false);
 
   const form = useForm<MortiseTemplate>({
     resolver: zodResolver(formSchema),
@@ -40,37 +139,62 @@ export function MortiseForm() {
   });
 
   const unitSystem = form.watch("unit_system");
+  const templateMode = form.watch("template_mode");
+  const spacingMode = form.watch("spacing_mode");
+  const hingeSize = form.watch("hinge_size");
+  const fractionPrecision = form.watch("fraction_precision");
+  const fractionStyle = form.watch("fraction_style");
+  const screwHoles = form.watch("screw_holes");
+  const clampSlots = form.watch("clamp_slots");
+  const fenceType = form.watch("fence_type");
+  const centerInStock = form.watch("center_in_stock");
+  const endStop = form.watch("end_stop");
 
-  const getStepSize = () => unitSystem === "imperial" ? 0.0625 : 0.1;
-  const formatValue = (value: number) => unitSystem === "imperial" ? value : inchToMm(value);
-  const parseValue = (value: string) => {
-    const num = parseFloat(value);
-    return unitSystem === "imperial" ? num : mmToInch(num);
-  };
+  // Rebuilt in the browser on every change; the server's OpenSCAD render is
+  // still what gets downloaded
+  const values = form.watch();
+  const valuesKey = JSON.stringify(values);
+  const liveParams = useMemo(() => {
+    const parsed = mortiseTemplateSchema.safeParse(values);
+    return parsed.success ? parsed.data : null;
+  }, [valuesKey]);
+  const liveGeometry = useMemo(() => liveParams && previewGeometry(liveParams), [liveParams]);
+  const liveOverlay = useMemo(() => liveParams && previewOverlay(liveParams), [liveParams]);
+  useEffect(() => () => liveGeometry?.dispose(), [liveGeometry]);
+  const renderedOverlay = useMemo(() => lastParams && previewOverlay(lastParams), [lastParams]);
+
+  // Lengths are shown in the selected unit system and stored in the unit they
+  // were typed in, so metric entries are never rounded through inches
+  const unit = unitFor(unitSystem);
 
   const getUnitLabel = () => unitSystem === "imperial" ? "inches" : "mm";
 
+  // Lengths measured in the 3D previews, written like the label writes them
+  const formatLength = (mm: number) =>
+    formatDimension(millimetres(mm), { unit_system: unitSystem, fraction_precision: fractionPrecision, fraction_style: fractionStyle });
+
   const mutation = useMutation({
     mutationFn: async (data: MortiseTemplate) => {
-      const response = await fetch("/api/generate", {
+      setJob(null);
+      const response = await fetch("/api/jobs", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(data),
       });
 
       if (!response.ok) {
-        throw new Error("Failed to generate STL file");
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Failed to generate STL file");
       }
 
-      const responseData = await response.json();
-      return { url: responseData.previewUrl, fileName: "mortise_template.stl" };
-
-      const blob = await response.blob();
-      const url = URL.createObjectURL(blob);
-      return { url, fileName };
+      const queued: RenderJobSnapshot = await response.json();
+      setJob(queued);
+      const finished = await waitForJob(queued.id, setJob);
+      return { url: finished.previewUrl!, fileName: "mortise_template.stl", report: finished.report ?? null };
     },
     onSuccess: (data) => {
       setPreviewUrl(data.url);
+      setReport(data.report);
       setShowPreview(true);
       toast({
         title: "Success",
@@ -86,34 +210,118 @@ export function MortiseForm() {
     },
   });
 
+  // 3MF, laser/CNC outlines and paper patterns are generated from the same parameters as the last render
+  const exportMutation = useMutation({
+    mutationFn: async (format: Exclude<ExportFormat, "stl">) => {
+      const response = await fetch("/api/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...lastParams, format, color_label: format === "3mf" && colorLabel }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to generate ${format.toUpperCase()} file`);
+      }
+
+      const responseData = await response.json();
+      return { url: responseData.previewUrl, fileName: `mortise_template.${format}` };
+    },
+    onSuccess: (data) => downloadFile(data.url, data.fileName),
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: MortiseTemplate) => {
+    setLastParams(data);
     mutation.mutate(data);
   };
 
+  const downloadFile = (url: string, fileName: string) => {
+    // Convert preview URL to download URL
+    const downloadUrl = url.replace("/api/preview/", "/api/download/");
+
+    const a = document.createElement("a");
+    a.href = downloadUrl;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
   const handleDownload = () => {
     if (!previewUrl) return;
+    downloadFile(previewUrl, "mortise_template.stl");
+  };
 
-    // Convert preview URL to download URL
-    const downloadUrl = previewUrl.replace("/api/preview/", "/api/download/");
-    
+  // The dimensioned top view of the last render, drawn in the browser
+  const handleDownloadDrawing = () => {
+    if (!lastParams) return;
+    const svg = drawingSVG(topViewDrawing(lastParams));
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
     const a = document.createElement("a");
-    a.href = downloadUrl;
-    a.download = "mortise_template.stl";
+    a.href = url;
+    a.download = "mortise_template_drawing.svg";
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
+    // Browsers may start reading the blob after click() returns
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
   };
 
+  const exportButtons = (["3mf", "dxf", "svg", "pdf"] as const).map(format => (
+    <Button
+      key={format}
+      type="button"
+      variant="outline"
+      className="flex-1"
+      disabled={!lastParams || exportMutation.isPending}
+      onClick={() => exportMutation.mutate(format)}
+    >
+      <FileDown className="mr-2 h-4 w-4" />
+      Download {format.toUpperCase()}
+    </Button>
+  ));
+
+  const drawingButton = (
+    <Button type="button" variant="outline" className="flex-1" disabled={!lastParams} onClick={handleDownloadDrawing}>
+      <Ruler className="mr-2 h-4 w-4" />
+      Download Drawing
+    </Button>
+  );
+
+  const colorLabelToggle = (
+    <div className="flex items-center space-x-2">
+      <Checkbox
+        id="color-label"
+        checked={colorLabel}
+        onCheckedChange={checked => setColorLabel(checked === true)}
+      />
+      <Label htmlFor="color-label" className="text-sm font-normal">
+        Separate label body in 3MF for a second filament colour
+      </Label>
+    </div>
+  );
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+        <SavedTemplates
+          getValues={() => form.getValues()}
+          onLoad={template => form.reset(template)}
+        />
+
         <FormField
           control={form.control}
           name="unit_system"
           render={({ field }) => (
             <FormItem>
               <FormLabel>Unit System</FormLabel>
-              <Select onValueChange={field.onChange} defaultValue={field.value}>
+              <Select onValueChange={field.onChange} value={field.value}>
                 <FormControl>
                   <SelectTrigger>
                     <SelectValue placeholder="Select unit system" />
@@ -125,54 +333,522 @@ export function MortiseForm() {
                 </SelectContent>
               </Select>
               <FormDescription>Choose your preferred unit system</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {unitSystem === "imperial" && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="fraction_precision"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Fraction Precision</FormLabel>
+                  <Select onValueChange={value => field.onChange(Number(value))} value={String(field.value)}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select precision" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {FRACTION_DENOMINATORS.map(denominator => (
+                        <SelectItem key={denominator} value={String(denominator)}>1/{denominator}"</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Finest fraction shown in the form and engraved on the label</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="fraction_style"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Label Fractions</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select fraction style" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="fraction">Exact fractions, decimals otherwise</SelectItem>
+                      <SelectItem value="nearest">Nearest fraction with the error</SelectItem>
+                      <SelectItem value="both">Fraction and decimal</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>How lengths between fractions are engraved, e.g. {formatInches(1.752, { precision: fractionPrecision, style: fractionStyle })}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="template_mode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Template Type</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select template type" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="mortise">Single mortise</SelectItem>
+                  <SelectItem value="loose_tenon">Loose tenon (mortises on both boards)</SelectItem>
+                  <SelectItem value="hinge">Butt hinge mortise</SelectItem>
+                  <SelectItem value="through">Through mortise (routed from both faces)</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormDescription>Loose-tenon and hinge templates size the mortise from your hardware</FormDescription>
+              <FormMessage />
             </FormItem>
           )}
         />
 
         {/* Category 1: Define Your Mortise Size */}
         <div className="space-y-4 border rounded-lg p-4">
-          <h3 className="text-lg font-semibold">1. Define Your Mortise Size</h3>
+          <h3 className="text-lg font-semibold">
+            1. {templateMode === "loose_tenon" ? "Define Your Tenon Stock" : templateMode === "hinge" ? "Choose Your Hinge" : "Define Your Mortise Size"}
+          </h3>
+          {templateMode === "loose_tenon" ? (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <FormField
               control={form.control}
-              name="mortise_length_in"
+              name="tenon_thickness"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Mortise Length</FormLabel>
+                  <FormLabel>Tenon Thickness</FormLabel>
                   <FormControl>
-                    <Input
-                      type="number"
-                      step={getStepSize()}
-                      {...field}
-                      value={formatValue(field.value)}
-                      onChange={e => field.onChange(parseValue(e.target.value))}
+                    <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                  </FormControl>
+                  <FormDescription>Thickness of the tenon stock; sets the mortise width ({getUnitLabel()})</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="tenon_width"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tenon Width</FormLabel>
+                  <FormControl>
+                    <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                  </FormControl>
+                  <FormDescription>Width of the tenon stock; sets the mortise length ({getUnitLabel()})</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="tenon_length"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tenon Length</FormLabel>
+                  <FormControl>
+                    <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                  </FormControl>
+                  <FormDescription>Overall tenon length, split between both boards ({getUnitLabel()})</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="depth_allowance"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Depth Allowance</FormLabel>
+                  <FormControl>
+                    <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                  </FormControl>
+                  <FormDescription>Extra depth per mortise for glue and chips ({getUnitLabel()})</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="loose_tenon_layout"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Templates</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="pair">Pair (one per board)</SelectItem>
+                      <SelectItem value="reversible">One reversible template</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Print a labelled template for each board, or one for both</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reference_marks"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center space-x-2 space-y-0 pt-8">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={checked => field.onChange(checked === true)}
                     />
                   </FormControl>
+                  <FormLabel className="font-normal">Engrave reference face arrows</FormLabel>
+                </FormItem>
+              )}
+            />
+          </div>
+          ) : templateMode === "hinge" ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="hinge_size"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Hinge Size</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {HINGE_SIZES.map(size => (
+                        <SelectItem key={size} value={size}>{HINGE_CATALOG[size].name}</SelectItem>
+                      ))}
+                      <SelectItem value="custom">Custom size</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Typical full-mortise butt hinges, or enter your own leaf</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="hinge_corners"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Leaf Corners</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="radiused">Radiused</SelectItem>
+                      <SelectItem value="square">Square (chisel the corners)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Match the corners of the hinge leaf</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="hinge_setback"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Setback</FormLabel>
+                  <FormControl>
+                    <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                  </FormControl>
+                  <FormDescription>Distance from the door face to the mortise; 0 runs it out at the face ({getUnitLabel()})</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {hingeSize === "custom" && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="hinge_leaf_length"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Leaf Length</FormLabel>
+                      <FormControl>
+                        <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                      </FormControl>
+                      <FormDescription>Length of the hinge leaf along the door edge ({getUnitLabel()})</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="hinge_leaf_width"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Leaf Width</FormLabel>
+                      <FormControl>
+                        <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                      </FormControl>
+                      <FormDescription>Width of the leaf set into the door edge ({getUnitLabel()})</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="hinge_depth"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Mortise Depth</FormLabel>
+                      <FormControl>
+                        <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                      </FormControl>
+                      <FormDescription>Thickness of the hinge leaf ({getUnitLabel()})</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="hinge_corner_radius"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Corner Radius</FormLabel>
+                      <FormControl>
+                        <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                      </FormControl>
+                      <FormDescription>Radius of the leaf corners ({getUnitLabel()})</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+          </div>
+          ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="mortise_length"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mortise Length</FormLabel>
+                  <FormControl>
+                    <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                  </FormControl>
                   <FormDescription>Desired mortise length ({getUnitLabel()})</FormDescription>
+                  <FormMessage />
                 </FormItem>
               )}
             />
 
             <FormField
               control={form.control}
-              name="mortise_width_in"
+              name="mortise_width"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Mortise Width</FormLabel>
                   <FormControl>
-                    <Input
-                      type="number"
-                      step={getStepSize()}
-                      {...field}
-                      value={formatValue(field.value)}
-                      onChange={e => field.onChange(parseValue(e.target.value))}
-                    />
+                    <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
                   </FormControl>
                   <FormDescription>Desired mortise width ({getUnitLabel()})</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {templateMode === "through" && (
+              <FormField
+                control={form.control}
+                name="through_thickness"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Board Thickness</FormLabel>
+                    <FormControl>
+                      <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                    </FormControl>
+                    <FormDescription>The mortise is routed halfway through from each face ({getUnitLabel()})</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {templateMode === "through" && (
+              <FormField
+                control={form.control}
+                name="reference_marks"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center space-x-2 space-y-0 pt-8">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={checked => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">Engrave reference face arrows</FormLabel>
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="spacing_mode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mortise Spacing</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="centered">Centered, fixed spacing</SelectItem>
+                      <SelectItem value="equal">Equal gaps across a span</SelectItem>
+                      <SelectItem value="explicit">Explicit positions</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>How several mortises are laid out along the fence</FormDescription>
+                  <FormMessage />
                 </FormItem>
               )}
             />
+
+            {spacingMode !== "explicit" && (
+              <FormField
+                control={form.control}
+                name="mortise_count"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Number of Mortises</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={8}
+                        step={1}
+                        {...field}
+                        onChange={e => field.onChange(parseInt(e.target.value, 10))}
+                      />
+                    </FormControl>
+                    <FormDescription>Mortises cut through one template</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {spacingMode === "centered" && (
+              <FormField
+                control={form.control}
+                name="mortise_spacing"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Spacing</FormLabel>
+                    <FormControl>
+                      <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                    </FormControl>
+                    <FormDescription>Center to center distance between mortises ({getUnitLabel()})</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {spacingMode === "equal" && (
+              <FormField
+                control={form.control}
+                name="mortise_span"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Span</FormLabel>
+                    <FormControl>
+                      <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                    </FormControl>
+                    <FormDescription>Width of the rail or board the mortises are spread across ({getUnitLabel()})</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
           </div>
+
+          {spacingMode === "explicit" && (
+            <FormField
+              control={form.control}
+              name="mortise_offsets"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mortise Positions</FormLabel>
+                  <div className="space-y-2">
+                    {field.value.map((offset, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <span className="w-24 text-sm text-muted-foreground">Mortise {index + 1}</span>
+                        <MeasurementInput
+                          unit={unit} precision={fractionPrecision}
+                          value={offset}
+                          onChange={next => field.onChange(field.value.map((value, i) => i === index ? next : value))}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          disabled={field.value.length === 1}
+                          onClick={() => field.onChange(field.value.filter((_, i) => i !== index))}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={field.value.length >= 8}
+                    onClick={() => {
+                      const last = Math.max(...field.value.map(offset => convert(offset, unit).value));
+                      field.onChange([...field.value, { value: last + convert(form.getValues("mortise_spacing"), unit).value, unit }]);
+                    }}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Mortise
+                  </Button>
+                  <FormDescription>Center of each mortise, measured from the same reference such as the end of the rail ({getUnitLabel()})</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
         </div>
 
         {/* Category 2: Set Your Bit and Bushing Diameter */}
@@ -181,40 +857,30 @@ export function MortiseForm() {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <FormField
               control={form.control}
-              name="bit_diameter_in"
+              name="bit_diameter"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Router Bit Diameter</FormLabel>
                   <FormControl>
-                    <Input
-                      type="number"
-                      step={getStepSize()}
-                      {...field}
-                      value={formatValue(field.value)}
-                      onChange={e => field.onChange(parseValue(e.target.value))}
-                    />
+                    <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
                   </FormControl>
                   <FormDescription>Outside diameter of router bit ({getUnitLabel()})</FormDescription>
+                  <FormMessage />
                 </FormItem>
               )}
             />
 
             <FormField
               control={form.control}
-              name="bushing_OD_in"
+              name="bushing_OD"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Guide Bushing Diameter</FormLabel>
                   <FormControl>
-                    <Input
-                      type="number"
-                      step={getStepSize()}
-                      {...field}
-                      value={formatValue(field.value)}
-                      onChange={e => field.onChange(parseValue(e.target.value))}
-                    />
+                    <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
                   </FormControl>
                   <FormDescription>Outside diameter of guide bushing ({getUnitLabel()})</FormDescription>
+                  <FormMessage />
                 </FormItem>
               )}
             />
@@ -225,128 +891,680 @@ export function MortiseForm() {
         <div className="space-y-4 border rounded-lg p-4">
           <h3 className="text-lg font-semibold">3. Customize Your Template</h3>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            
-
+            {templateMode !== "hinge" && !(fenceType === "double" && centerInStock) && (
             <FormField
               control={form.control}
-              name="edge_distance_in"
+              name="edge_distance"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Edge Distance</FormLabel>
                   <FormControl>
-                    <Input
-                      type="number"
-                      step={getStepSize()}
-                      {...field}
-                      value={formatValue(field.value)}
-                      onChange={e => field.onChange(parseValue(e.target.value))}
-                    />
+                    <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
                   </FormControl>
                   <FormDescription>Distance from workpiece edge to mortise ({getUnitLabel()})</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            )}
+
+            <FormField
+              control={form.control}
+              name="edge_position"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Fence Side</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="left">Left</SelectItem>
+                      <SelectItem value="right">Right</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Side of the mortise the workpiece edge and fence are on</FormDescription>
+                  <FormMessage />
                 </FormItem>
               )}
             />
 
             <FormField
               control={form.control}
-              name="extension_length_in"
+              name="extension_length"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Template Length</FormLabel>
                   <FormControl>
-                    <Input
-                      type="number"
-                      step={getStepSize()}
-                      {...field}
-                      value={formatValue(field.value)}
-                      onChange={e => field.onChange(parseValue(e.target.value))}
-                    />
+                    <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
                   </FormControl>
                   <FormDescription>Extra length beyond the cutout ({getUnitLabel()})</FormDescription>
+                  <FormMessage />
                 </FormItem>
               )}
             />
 
             <FormField
               control={form.control}
-              name="extension_width_in"
+              name="extension_width"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Template Width</FormLabel>
                   <FormControl>
-                    <Input
-                      type="number"
-                      step={getStepSize()}
-                      {...field}
-                      value={formatValue(field.value)}
-                      onChange={e => field.onChange(parseValue(e.target.value))}
-                    />
+                    <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
                   </FormControl>
                   <FormDescription>Extra width beyond the cutout ({getUnitLabel()})</FormDescription>
+                  <FormMessage />
                 </FormItem>
               )}
             />
 
             <FormField
               control={form.control}
-              name="template_thickness_in"
+              name="template_thickness"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Template Thickness</FormLabel>
+                  <FormControl>
+                    <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                  </FormControl>
+                  <FormDescription>Thickness of template ({getUnitLabel()})</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Fence</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="fence_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fence Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select fence type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="single">Single fence</SelectItem>
+                        <SelectItem value="double">Double fence (both faces)</SelectItem>
+                        <SelectItem value="adjustable">Adjustable (bolt-on)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      {fenceType === "double"
+                        ? "A second fence against the opposite face holds the template square on the stock"
+                        : fenceType === "adjustable"
+                          ? "A separate fence bar bolts through slots, so the edge distance can be fine-tuned"
+                          : "One fence against the reference face"}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="fence_height"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fence Height</FormLabel>
+                    <FormControl>
+                      <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                    </FormControl>
+                    <FormDescription>How far the fence stands above the plate ({getUnitLabel()})</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="fence_thickness"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fence Thickness</FormLabel>
+                    <FormControl>
+                      <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                    </FormControl>
+                    <FormDescription>Thickness of the fence and end stop ({getUnitLabel()})</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {fenceType === "double" && (
+                <FormField
+                  control={form.control}
+                  name="stock_thickness"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Stock Thickness</FormLabel>
+                      <FormControl>
+                        <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                      </FormControl>
+                      <FormDescription>Distance between the two fences ({getUnitLabel()})</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {fenceType === "double" && (
+                <FormField
+                  control={form.control}
+                  name="center_in_stock"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-2 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={checked => field.onChange(checked === true)}
+                        />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel className="font-normal">Center the mortise in the stock</FormLabel>
+                        <FormDescription>Ignores the edge distance, as for a centered mortise in a leg</FormDescription>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+              )}
+              {fenceType === "adjustable" && (
+                <FormField
+                  control={form.control}
+                  name="fence_adjustment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fence Adjustment</FormLabel>
+                      <FormControl>
+                        <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                      </FormControl>
+                      <FormDescription>Total travel of the fence across the plate ({getUnitLabel()})</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="end_stop"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End Stop</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select end stop" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        <SelectItem value="left">Left end</SelectItem>
+                        <SelectItem value="right">Right end</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>A block across the plate to butt the end of the board against</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {endStop !== "none" && (
+                <FormField
+                  control={form.control}
+                  name="end_stop_distance"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>End Stop Distance</FormLabel>
+                      <FormControl>
+                        <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                      </FormControl>
+                      <FormDescription>From the end of the board to the nearest mortise ({getUnitLabel()})</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Angles</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="tilt_angle"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tilt</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={-45}
+                        max={45}
+                        step={0.5}
+                        {...field}
+                        onChange={e => field.onChange(parseFloat(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>Degrees the mortise leans across the board, toward the fence; the plate sits on a wedge</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="splay_angle"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Splay</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={-45}
+                        max={45}
+                        step={0.5}
+                        {...field}
+                        onChange={e => field.onChange(parseFloat(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>Degrees the mortise leans along the board, toward the right-hand end</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="mortise_rotation"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Skew</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={-90}
+                        max={90}
+                        step={0.5}
+                        {...field}
+                        onChange={e => field.onChange(parseFloat(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>Degrees the mortise turns from parallel to the fence, counterclockwise</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Alignment Marks</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="centerlines"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={checked => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel className="font-normal">Centerline grooves</FormLabel>
+                    <FormDescription>V-grooves along and across each mortise</FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="end_ticks"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={checked => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel className="font-normal">Mortise end ticks</FormLabel>
+                    <FormDescription>On the fence and the far edge, where each mortise stops</FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="sight_notches"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={checked => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel className="font-normal">Sight notches</FormLabel>
+                    <FormDescription>V-notches where the centerlines meet the plate edges and fence</FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="fence_ruler"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={checked => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel className="font-normal">Fence ruler</FormLabel>
+                    <FormDescription>A scale along the fence top, zeroed on the mortises and numbered in inches or millimetres</FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Mounting</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="screw_holes"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={checked => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel className="font-normal">Countersunk screw holes</FormLabel>
+                      <FormDescription>For #8 screws, clear of the router base</FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="clamp_slots"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={checked => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel className="font-normal">Clamp slots</FormLabel>
+                      <FormDescription>Slots at each end for a clamp or hold-down bolt</FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pad_pockets"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={checked => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel className="font-normal">Rubber pad pockets</FormLabel>
+                      <FormDescription>Recesses underneath for 1/2" adhesive bumper pads</FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              {(screwHoles || clampSlots) && (
+                <FormField
+                  control={form.control}
+                  name="router_base_diameter"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Router Base Diameter</FormLabel>
+                      <FormControl>
+                        <MeasurementInput {...field} unit={unit} precision={fractionPrecision} />
+                      </FormControl>
+                      <FormDescription>Screws and slots are kept out from under the base ({getUnitLabel()})</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Category 4: Label */}
+        <div className="space-y-4 border rounded-lg p-4">
+          <h3 className="text-lg font-semibold">4. Label</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="label_title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Project Name or Part ID</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Hall table, rail A" maxLength={40} {...field} />
+                  </FormControl>
+                  <FormDescription>Engraved above the dimensions; leave empty for none</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="label_style"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Label Style</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select label style" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="engrave">Engraved</SelectItem>
+                      <SelectItem value="emboss">Embossed (raised)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Raised lettering stays clear of the cutouts, but can catch a router base that overhangs it</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="label_font"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Font</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select font" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {LABEL_FONTS.map(font => (
+                        <SelectItem key={font} value={font}>{LABEL_FONT_NAMES[font]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="label_size"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Text Size</FormLabel>
                   <FormControl>
                     <Input
                       type="number"
-                      step={getStepSize()}
+                      min={1.5}
+                      max={12}
+                      step={0.5}
                       {...field}
-                      value={formatValue(field.value)}
-                      onChange={e => field.onChange(parseValue(e.target.value))}
+                      onChange={e => field.onChange(parseFloat(e.target.value))}
                     />
                   </FormControl>
-                  <FormDescription>Thickness of template ({getUnitLabel()})</FormDescription>
+                  <FormDescription>Capital letter height in mm; smaller where the plate has no room</FormDescription>
+                  <FormMessage />
                 </FormItem>
               )}
             />
           </div>
+
+          <FormField
+            control={form.control}
+            name="label_fields"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Engraved Dimensions</FormLabel>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {LABEL_FIELDS.map(labelField => (
+                    <div key={labelField} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`label-field-${labelField}`}
+                        checked={field.value.includes(labelField)}
+                        onCheckedChange={checked => field.onChange(checked === true
+                          ? LABEL_FIELDS.filter(f => f === labelField || field.value.includes(f))
+                          : field.value.filter(f => f !== labelField))}
+                      />
+                      <Label htmlFor={`label-field-${labelField}`} className="font-normal">
+                        {LABEL_FIELD_NAMES[labelField]}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+                <FormDescription>Lines that don't apply to the template type are skipped</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="space-y-2 border rounded-lg p-4">
+          <h3 className="text-lg font-semibold">Live Preview</h3>
+          <STLViewer
+            geometry={liveGeometry}
+            width="100%"
+            height={300}
+            rotate={false}
+            shadows={false}
+            measure={true}
+            formatLength={formatLength}
+            overlay={liveOverlay}
+          />
+          <p className="text-sm text-muted-foreground">
+            {liveGeometry
+              ? "A quick model that follows the form as you type. Marks, mounting holes and the label text are only in the generated template."
+              : "Enter a complete set of dimensions to see the template."}
+          </p>
         </div>
 
         <div className="flex flex-col space-y-4 sm:flex-row sm:space-x-4 sm:space-y-0">
           <Button type="submit" className="flex-1" disabled={mutation.isPending}>
-            {mutation.isPending ? "Generating..." : "Generate Template"}
+            {mutation.isPending ? job?.stage ?? "Generating..." : "Generate Template"}
           </Button>
           {previewUrl && (
-            <Button type="button" onClick={handleDownload} variant="outline" className="flex-1">
-              <Download className="mr-2 h-4 w-4" />
-              Download STL
-            </Button>
+            <>
+              <Button type="button" onClick={handleDownload} variant="outline" className="flex-1">
+                <Download className="mr-2 h-4 w-4" />
+                Download STL
+              </Button>
+              {exportButtons}
+              {drawingButton}
+            </>
           )}
         </div>
 
+        {previewUrl && colorLabelToggle}
+
+        {mutation.isPending && job && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>{job.status === "queued" ? "Waiting for a free renderer..." : job.stage}</span>
+              <span>{job.progress}%</span>
+            </div>
+            <Progress value={job.progress} />
+            {job.log.length > 0 && (
+              <pre className="max-h-24 overflow-y-auto rounded bg-muted p-2 text-xs">
+                {job.log.slice(-5).join("\n")}
+              </pre>
+            )}
+          </div>
+        )}
+
+        {mutation.isError && job?.status === "failed" && job.log.length > 0 && (
+          <pre className="max-h-40 overflow-y-auto rounded bg-destructive/10 p-2 text-xs text-destructive">
+            {job.log.join("\n")}
+          </pre>
+        )}
+
         <Dialog open={showPreview} onOpenChange={setShowPreview}>
           <DialogContent className="max-w-3xl">
             <DialogHeader>
               <DialogTitle>3D Preview</DialogTitle>
               <DialogDescription>
-                Preview your mortise template. Click and drag to rotate.
+                Preview your mortise template. Click and drag to rotate, use Measure to check a distance between two points, or switch to the dimensioned top view.
               </DialogDescription>
             </DialogHeader>
             {previewUrl && (
               <div className="h-[400px] w-full">
-                <StlViewer
+                <STLViewer
                   url={previewUrl}
-                  width={800}
+                  width="100%"
                   height={400}
-                  modelColor="#3b82f6"
-                  backgroundColor="#f8fafc"
+                  modelcolor="#3b82f6"
+                  backgroundcolor="#f8fafc"
                   rotate={true}
-                  orbitControls={true}
+                  orbitcontrols={true}
                   shadows={true}
+                  measure={true}
+                  formatLength={formatLength}
+                  overlay={renderedOverlay}
                 />
               </div>
             )}
-            <Button type="button" onClick={handleDownload} className="mt-4">
-              <Download className="mr-2 h-4 w-4" />
-              Download STL
-            </Button>
+            {report && <ManufacturabilityReport report={report} />}
+            <div className="mt-4 flex flex-col space-y-2 sm:flex-row sm:space-x-2 sm:space-y-0">
+              <Button type="button" onClick={handleDownload} className="flex-1">
+                <Download className="mr-2 h-4 w-4" />
+                Download STL
+              </Button>
+              {exportButtons}
+              {drawingButton}
+            </div>
+            {colorLabelToggle}
           </DialogContent>
         </Dialog>
       </form>
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Check, FolderOpen, Pencil, Save, Trash2, X } from "lucide-react";
+import { type MortiseTemplate, type SavedTemplate } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+const TEMPLATES_KEY = ["/api/templates"];
+
+interface SavedTemplatesProps {
+  getValues: () => MortiseTemplate;
+  onLoad: (template: MortiseTemplate) => void;
+}
+
+export function SavedTemplates({ getValues, onLoad }: SavedTemplatesProps) {
+  const { toast } = useToast();
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<SavedTemplate | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery<SavedTemplate[]>({
+    queryKey: TEMPLATES_KEY,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: TEMPLATES_KEY });
+
+  const saveMutation = useMutation({
+    mutationFn: (name: string) =>
+      apiRequest("POST", "/api/templates", { name, ...getValues() }),
+    onSuccess: () => {
+      setNewName("");
+      refresh();
+      toast({ title: "Saved", description: "Template added to your library" });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (template: SavedTemplate) =>
+      apiRequest("PUT", `/api/templates/${template.id}`, { name: template.name, ...getValues() }),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Updated", description: "Template updated with the current settings" });
+    },
+    onError,
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, name }: { id: number; name: string }) =>
+      apiRequest("PATCH", `/api/templates/${id}`, { name }),
+    onSuccess: () => {
+      setEditingId(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/templates/${id}`),
+    onSuccess: () => {
+      setPendingDelete(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const handleLoad = ({ id, name, ...params }: SavedTemplate) => {
+    onLoad(params);
+    toast({ title: "Loaded", description: `Loaded "${name}"` });
+  };
+
+  return (
+    <div className="space-y-4 border rounded-lg p-4">
+      <h3 className="text-lg font-semibold">Saved Templates</h3>
+
+      <div className="flex space-x-2">
+        <Input
+          placeholder="Name these settings, e.g. Apron 1-3/4 x 3/8"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          disabled={!newName.trim() || saveMutation.isPending}
+          onClick={() => saveMutation.mutate(newName.trim())}
+        >
+          <Save className="mr-2 h-4 w-4" />
+          Save
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading saved templates...</p>
+      ) : templates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No saved templates yet.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {templates.map(template => (
+            <li key={template.id} className="flex items-center justify-between gap-2 p-2">
+              {editingId === template.id ? (
+                <div className="flex flex-1 items-center space-x-2">
+                  <Input
+                    value={editingName}
+                    onChange={e => setEditingName(e.target.value)}
+                    autoFocus
+                  />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    disabled={!editingName.trim() || renameMutation.isPending}
+                    onClick={() => renameMutation.mutate({ id: template.id, name: editingName.trim() })}
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" size="icon" variant="ghost" onClick={() => setEditingId(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <span className="flex-1 truncate text-sm font-medium">{template.name}</span>
+                  <div className="flex space-x-1">
+                    <Button type="button" size="sm" variant="outline" onClick={() => handleLoad(template)}>
+                      <FolderOpen className="mr-1 h-4 w-4" />
+                      Load
+                    </Button>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      title="Overwrite with current settings"
+                      disabled={updateMutation.isPending}
+                      onClick={() => updateMutation.mutate(template)}
+                    >
+                      <Save className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      title="Rename"
+                      onClick={() => {
+                        setEditingId(template.id);
+                        setEditingName(template.name);
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      title="Delete"
+                      onClick={() => setPendingDelete(template)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={open => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete saved template?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.name}" will be removed from your library.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete.id)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { formatMeasurementInput, nudgeMeasurement, parseMeasurement } from "./measurement";
+
+describe("parseMeasurement", () => {
+  it("reads whole numbers with fractions", () => {
+    expect(parseMeasurement("1 3/4", "in")).toEqual({ value: 1.75, unit: "in" });
+    expect(parseMeasurement('1-3/4"', "in")).toEqual({ value: 1.75, unit: "in" });
+    expect(parseMeasurement("1 - 3 / 4 in", "mm")).toEqual({ value: 1.75, unit: "in" });
+    expect(parseMeasurement("5/16", "in")).toEqual({ value: 0.3125, unit: "in" });
+  });
+
+  it("reads decimals in the form's unit unless a unit is given", () => {
+    expect(parseMeasurement("0.375", "in")).toEqual({ value: 0.375, unit: "in" });
+    expect(parseMeasurement(".5", "mm")).toEqual({ value: 0.5, unit: "mm" });
+    expect(parseMeasurement("44.5mm", "in")).toEqual({ value: 44.5, unit: "mm" });
+    expect(parseMeasurement("4.5 cm", "in")).toEqual({ value: 45, unit: "mm" });
+    expect(parseMeasurement("2 Inches", "mm")).toEqual({ value: 2, unit: "in" });
+    expect(parseMeasurement("  12  ", "mm")).toEqual({ value: 12, unit: "mm" });
+  });
+
+  it("returns null for blank or unreadable input", () => {
+    for (const text of ["", "   ", "abc", "1/0", "-3", "1.2.3", "3 furlongs", "1 3/", "mm"]) {
+      expect(parseMeasurement(text, "in")).toBeNull();
+    }
+  });
+});
+
+describe("formatMeasurementInput", () => {
+  it("writes inches as fractions down to the precision", () => {
+    expect(formatMeasurementInput({ value: 1.75, unit: "in" }, "in", 64)).toBe("1-3/4");
+    expect(formatMeasurementInput({ value: 0.3, unit: "in" }, "in", 16)).toBe("0.300");
+    expect(formatMeasurementInput({ value: 7.9375, unit: "mm" }, "in", 64)).toBe("5/16");
+  });
+
+  it("writes millimetres without float noise", () => {
+    expect(formatMeasurementInput({ value: 44.5, unit: "mm" }, "mm", 64)).toBe("44.5");
+    expect(formatMeasurementInput({ value: 1.75, unit: "in" }, "mm", 64)).toBe("44.45");
+  });
+});
+
+describe("nudgeMeasurement", () => {
+  it("steps to the next mark of the fraction precision", () => {
+    expect(nudgeMeasurement({ value: 0.3, unit: "in" }, "in", 1 / 16, 1)).toEqual({ value: 0.3125, unit: "in" });
+    expect(nudgeMeasurement({ value: 0.3, unit: "in" }, "in", 1 / 16, -1)).toEqual({ value: 0.25, unit: "in" });
+    expect(nudgeMeasurement({ value: 0.3125, unit: "in" }, "in", 1 / 16, 1)).toEqual({ value: 0.375, unit: "in" });
+    expect(nudgeMeasurement({ value: 0.3125, unit: "in" }, "in", 1 / 64, -1)).toEqual({ value: 0.296875, unit: "in" });
+  });
+
+  it("steps in the form's unit whatever unit the length is in", () => {
+    expect(nudgeMeasurement({ value: 0.5, unit: "in" }, "mm", 1, 1)).toEqual({ value: 13, unit: "mm" });
+    expect(nudgeMeasurement({ value: 12.7, unit: "mm" }, "in", 1 / 8, 1)).toEqual({ value: 0.625, unit: "in" });
+    expect(nudgeMeasurement({ value: 10, unit: "mm" }, "mm", 0.1, -1)).toEqual({ value: 9.9, unit: "mm" });
+  });
+
+  it("doesn't go below zero", () => {
+    expect(nudgeMeasurement({ value: 0, unit: "in" }, "in", 1 / 16, -1)).toEqual({ value: 0, unit: "in" });
+  });
+});
@@ -0,0 +1,59 @@
+import { decimalToFraction, type FractionDenominator } from "@shared/format";
+import { convert, type LengthUnit, type Measurement } from "@shared/units";
+
+// Parsing and display for typed-in lengths: "1 3/4", "1-3/4\"", "5/16",
+// "0.375", "44.5mm", "4.5 cm"
+
+const UNIT_SUFFIXES: Record<string, { unit: LengthUnit; scale: number }> = {
+  '"': { unit: "in", scale: 1 },
+  "''": { unit: "in", scale: 1 },
+  in: { unit: "in", scale: 1 },
+  inch: { unit: "in", scale: 1 },
+  inches: { unit: "in", scale: 1 },
+  mm: { unit: "mm", scale: 1 },
+  cm: { unit: "mm", scale: 10 },
+};
+
+// A whole number and a fraction, a fraction, or a decimal, then an optional unit
+const MEASUREMENT_PATTERN =
+  /^(?:(\d+)(?:\s+|\s*-\s*)(\d+)\s*\/\s*(\d+)|(\d+)\s*\/\s*(\d+)|(\d+(?:\.\d*)?|\.\d+))\s*("|''|[a-z]+)?$/;
+
+// Read a typed length; bare numbers are taken in the form's unit. Returns
+// null for anything that isn't a non-negative length.
+export function parseMeasurement(text: string, defaultUnit: LengthUnit): Measurement | null {
+  const match = text.trim().toLowerCase().match(MEASUREMENT_PATTERN);
+  if (!match) return null;
+  const [, whole, wholeNum, wholeDen, num, den, decimal, suffix] = match;
+
+  let value: number;
+  if (whole !== undefined) {
+    value = Number(whole) + Number(wholeNum) / Number(wholeDen);
+  } else if (num !== undefined) {
+    value = Number(num) / Number(den);
+  } else {
+    value = Number(decimal);
+  }
+  if (!Number.isFinite(value)) return null;
+
+  if (suffix === undefined) return { value, unit: defaultUnit };
+  const unit = UNIT_SUFFIXES[suffix];
+  if (!unit) return null;
+  return { value: value * unit.scale, unit: unit.unit };
+}
+
+// Show a length in the given unit: fractions of an inch down to
+// 1/precision, or millimetres
+export function formatMeasurementInput(length: Measurement, unit: LengthUnit, precision: FractionDenominator): string {
+  const { value } = convert(length, unit);
+  if (unit === "in") return decimalToFraction(value, precision);
+  return Number(value.toFixed(3)).toString();
+}
+
+// Step a length to the next mark of the given resolution, in that unit, so a
+// nudge from 0.3" lands on 5/16" rather than 0.3625"
+export function nudgeMeasurement(length: Measurement, unit: LengthUnit, resolution: number, direction: 1 | -1): Measurement {
+  const { value } = convert(length, unit);
+  const marks = value / resolution;
+  const snapped = direction > 0 ? Math.floor(marks + 1e-9) + 1 : Math.ceil(marks - 1e-9) - 1;
+  return { value: Math.max(0, Number((snapped * resolution).toFixed(6))), unit };
+}
@@ -0,0 +1,203 @@
+import * as THREE from "three";
+import { ConvexGeometry } from "three/examples/jsm/geometries/ConvexGeometry.js";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import { drawingSVG, topViewDrawing } from "@shared/drawing";
+import { computeTemplateLayout, PAIR_GAP, type RoundedRect, type TemplateLayout } from "@shared/geometry";
+import { lineLength } from "@shared/label";
+import { type MortiseTemplate } from "@shared/schema";
+import { type PlanOverlay } from "@/components/STLViewer";
+
+// A quick in-browser model of the template for previewing while the form is
+// edited. It follows generateOpenSCADContent: the plate with its cutouts,
+// the wedge under an angled plate, the fences and end stop, the adjustable
+// fence bar, and a slab standing in for each label line. Marks, mounting
+// holes and the underside label are left off; the OpenSCAD render remains
+// the model that is exported.
+
+// Segments per rounded corner
+const CORNER_SEGMENTS = 8;
+
+const radians = (degrees: number) => degrees * Math.PI / 180;
+
+// Outline of a rounded rectangle, turned about its center by its angle
+function roundedRectPoints(rect: RoundedRect): THREE.Vector2[] {
+  const { x, y, length, width } = rect;
+  const r = Math.min(rect.radius, length / 2, width / 2);
+  const corners: Array<[number, number, number]> = [
+    [x + length - r, y + r, -90],
+    [x + length - r, y + width - r, 0],
+    [x + r, y + width - r, 90],
+    [x + r, y + r, 180],
+  ];
+  const center = new THREE.Vector2(x + length / 2, y + width / 2);
+  const angle = radians(rect.angle ?? 0);
+  return corners.flatMap(([cx, cy, start]) =>
+    Array.from({ length: CORNER_SEGMENTS + 1 }, (_, i) => {
+      const a = radians(start + 90 * i / CORNER_SEGMENTS);
+      return new THREE.Vector2(cx + r * Math.cos(a), cy + r * Math.sin(a)).rotateAround(center, angle);
+    }));
+}
+
+// Same attributes on every part so they merge into one mesh
+function solid(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+  const part = geometry.index ? geometry.toNonIndexed() : geometry;
+  part.deleteAttribute("uv");
+  return part;
+}
+
+function box(x: number, y: number, z: number, length: number, width: number, height: number): THREE.BufferGeometry {
+  return solid(new THREE.BoxGeometry(length, width, height).translate(x + length / 2, y + width / 2, z + height / 2));
+}
+
+function triangles(positions: number[]): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+// A flat face with holes, triangulated, with each point placed by `at`
+function face(outer: THREE.Vector2[], holes: THREE.Vector2[][], at: (point: THREE.Vector2) => THREE.Vector3): number[] {
+  const points = [...outer, ...holes.flat()];
+  return THREE.ShapeUtils.triangulateShape(outer, holes)
+    .flatMap(triangle => triangle.flatMap(i => at(points[i]).toArray()));
+}
+
+// OpenSCAD's tilted(): turn the flat plate about its pivot onto the wedge
+function tiltMatrix(layout: TemplateLayout): THREE.Matrix4 {
+  const matrix = new THREE.Matrix4();
+  const { angled } = layout;
+  if (!angled) return matrix;
+  const [px, py] = angled.pivot;
+  return matrix
+    .makeTranslation(px + angled.shift[0], py + angled.shift[1], angled.pivot_z)
+    .multiply(new THREE.Matrix4().makeRotationY(radians(angled.splay)))
+    .multiply(new THREE.Matrix4().makeRotationX(radians(angled.tilt)))
+    .multiply(new THREE.Matrix4().makeTranslation(-px, -py, 0));
+}
+
+// One plate of the print, standing on the bed like the OpenSCAD model before
+// it is raised by edge_below
+function plate(layout: TemplateLayout, lines: string[]): THREE.BufferGeometry[] {
+  const { total_length: L, total_width: W, thickness, label } = layout;
+  const outline = new THREE.Shape([
+    new THREE.Vector2(0, 0),
+    new THREE.Vector2(L, 0),
+    new THREE.Vector2(L, W),
+    new THREE.Vector2(0, W),
+  ]);
+  // A cutout running out at an edge can't be a hole in the outline; it is
+  // left solid rather than tearing the plate open
+  const inside = (point: THREE.Vector2) => point.x > 0.01 && point.x < L - 0.01 && point.y > 0.01 && point.y < W - 0.01;
+  const holes = layout.cutouts.map(roundedRectPoints).filter(points => points.every(inside));
+  outline.holes.push(...holes.map(points => new THREE.Path(points)));
+
+  const tilted = [solid(new THREE.ExtrudeGeometry(outline, { depth: thickness, bevelEnabled: false }))];
+  // Label placeholder: a slab over each line's estimated extent
+  if (label.size > 0) {
+    lines.forEach((line, i) => {
+      const length = lineLength(line, label.font) * label.size;
+      if (length > 0) {
+        tilted.push(box(label.x, label.y - label.lineSpacing * i, thickness, length, label.size, layout.engrave_depth));
+      }
+    });
+  }
+  const matrix = tiltMatrix(layout);
+  tilted.forEach(part => part.applyMatrix4(matrix));
+
+  const parts = [...tilted];
+  if (layout.angled) parts.push(wedge(layout, holes, matrix));
+
+  const fenceTop = (layout.angled?.rise ?? 0) + thickness + layout.edge_height;
+  for (const block of layout.blocks) {
+    parts.push(box(block.x, block.y, -layout.edge_below, block.length, block.width, layout.edge_below + fenceTop));
+  }
+  return parts;
+}
+
+// The wedge under an angled plate: the hull of the flat footprint and the
+// turned plate's underside, with the cutouts carried through it along the
+// router's axis down to the bed
+function wedge(layout: TemplateLayout, holes: THREE.Vector2[][], matrix: THREE.Matrix4): THREE.BufferGeometry {
+  const { total_length: L, total_width: W, angled } = layout;
+  const footprint = [[0, 0], [L, 0], [L, W], [0, W]].map(([x, y]) => new THREE.Vector2(x, y));
+  const underside = new THREE.Plane().setFromNormalAndCoplanarPoint(new THREE.Vector3(0, 0, 1), new THREE.Vector3())
+    .applyMatrix4(matrix);
+  const axis = underside.normal;
+
+  // The hull's sides; its top and bottom are replaced by faces with holes
+  const hull = new ConvexGeometry([
+    ...footprint.map(point => new THREE.Vector3(point.x, point.y, 0)),
+    ...angled!.corners.map(([x, y, z]) => new THREE.Vector3(x, y, z)),
+  ]);
+  const hullPositions = hull.getAttribute("position");
+  const sides: number[] = [];
+  for (let i = 0; i < hullPositions.count; i += 3) {
+    const corners = [0, 1, 2].map(j => new THREE.Vector3().fromBufferAttribute(hullPositions, i + j));
+    const flat = corners.every(corner => Math.abs(corner.z) < 1e-6);
+    const onPlate = corners.every(corner => Math.abs(underside.distanceToPoint(corner)) < 1e-6);
+    if (!flat && !onPlate) sides.push(...corners.flatMap(corner => corner.toArray()));
+  }
+  hull.dispose();
+
+  // Where a point on the plate's underside comes down to the bed along the axis
+  const top = (point: THREE.Vector2) => new THREE.Vector3(point.x, point.y, 0).applyMatrix4(matrix);
+  const bed = (point: THREE.Vector2) => {
+    const above = top(point);
+    return above.sub(axis.clone().multiplyScalar(above.z / axis.z));
+  };
+  const bottomHoles = holes.map(points => points.map(point => {
+    const down = bed(point);
+    return new THREE.Vector2(down.x, down.y);
+  }));
+
+  const walls = holes.flatMap(points => points.flatMap((point, i) => {
+    const next = points[(i + 1) % points.length];
+    const quad = [bed(point), bed(next), top(next), top(point)];
+    return [quad[0], quad[1], quad[2], quad[0], quad[2], quad[3]].flatMap(corner => corner.toArray());
+  }));
+
+  return triangles([
+    ...sides,
+    ...face(footprint, holes, top),
+    ...face(footprint, bottomHoles, point => new THREE.Vector3(point.x, point.y, 0)),
+    ...walls,
+  ]);
+}
+
+// The whole print in millimetres, z up, as generateOpenSCADContent lays it out
+export function buildPreviewGeometry(layout: TemplateLayout): THREE.BufferGeometry {
+  const parts = layout.copies.flatMap(copy =>
+    plate(layout, copy.lines).map(part => part.translate(0, copy.dy, layout.edge_below)));
+
+  const bar = layout.fence_bar;
+  if (bar) {
+    layout.copies.forEach((_, i) => {
+      parts.push(box(0, layout.overall_width + PAIR_GAP + i * (bar.width + PAIR_GAP), 0, bar.length, bar.width, bar.height));
+    });
+  }
+
+  const merged = mergeGeometries(parts) ?? new THREE.BufferGeometry();
+  parts.forEach(part => part.dispose());
+  return merged;
+}
+
+// The preview for a set of form values, or null while they can't be laid out
+export function previewGeometry(params: MortiseTemplate): THREE.BufferGeometry | null {
+  try {
+    return buildPreviewGeometry(computeTemplateLayout(params));
+  } catch {
+    return null;
+  }
+}
+
+// The dimensioned drawing to lay over the top view, without the outlines the
+// model already shows
+export function previewOverlay(params: MortiseTemplate): PlanOverlay | null {
+  try {
+    const drawing = topViewDrawing(params);
+    return { svg: drawingSVG(drawing, false), bounds: drawing.bounds };
+  } catch {
+    return null;
+  }
+}
@@ -39,7 +39,7 @@ export default function Home() {
                 <li>
                   Click "Generate Template" to create your custom 3D model
                 </li>
-                <li>Download the STL file</li>
+                <li>Download the STL file, a DXF/SVG outline for laser or CNC cutting, or a printable PDF pattern</li>
                 <li>Print or carve the template and use it in your workshop</li>
               </ol>
             </div>
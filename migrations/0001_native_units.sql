@@ -0,0 +1,42 @@
+-- Store template lengths in the unit of each row's unit system instead of
+-- always in inches. Run this once against an existing database before
+-- `npm run db:push`; new databases can skip it.
+
+BEGIN;
+
+ALTER TABLE "mortise_templates" ADD COLUMN "length_unit" text NOT NULL DEFAULT 'in';
+
+ALTER TABLE "mortise_templates" RENAME COLUMN "bushing_od_in" TO "bushing_od";
+ALTER TABLE "mortise_templates" RENAME COLUMN "bit_diameter_in" TO "bit_diameter";
+ALTER TABLE "mortise_templates" RENAME COLUMN "mortise_length_in" TO "mortise_length";
+ALTER TABLE "mortise_templates" RENAME COLUMN "mortise_width_in" TO "mortise_width";
+ALTER TABLE "mortise_templates" RENAME COLUMN "edge_distance_in" TO "edge_distance";
+ALTER TABLE "mortise_templates" RENAME COLUMN "extension_length_in" TO "extension_length";
+ALTER TABLE "mortise_templates" RENAME COLUMN "extension_width_in" TO "extension_width";
+ALTER TABLE "mortise_templates" RENAME COLUMN "template_thickness_in" TO "template_thickness";
+
+ALTER TABLE "mortise_templates"
+  ALTER COLUMN "bushing_od" TYPE numeric(12, 6),
+  ALTER COLUMN "bit_diameter" TYPE numeric(12, 6),
+  ALTER COLUMN "mortise_length" TYPE numeric(12, 6),
+  ALTER COLUMN "mortise_width" TYPE numeric(12, 6),
+  ALTER COLUMN "edge_distance" TYPE numeric(12, 6),
+  ALTER COLUMN "extension_length" TYPE numeric(12, 6),
+  ALTER COLUMN "extension_width" TYPE numeric(12, 6),
+  ALTER COLUMN "template_thickness" TYPE numeric(12, 6);
+
+-- Metric rows were saved as inches rounded to 4 places; bring them back to
+-- millimetres at 0.01 mm, which recovers what was typed in the form.
+UPDATE "mortise_templates" SET
+  "length_unit" = 'mm',
+  "bushing_od" = round("bushing_od" * 25.4, 2),
+  "bit_diameter" = round("bit_diameter" * 25.4, 2),
+  "mortise_length" = round("mortise_length" * 25.4, 2),
+  "mortise_width" = round("mortise_width" * 25.4, 2),
+  "edge_distance" = round("edge_distance" * 25.4, 2),
+  "extension_length" = round("extension_length" * 25.4, 2),
+  "extension_width" = round("extension_width" * 25.4, 2),
+  "template_thickness" = round("template_thickness" * 25.4, 2)
+WHERE "unit_system" = 'metric';
+
+COMMIT;
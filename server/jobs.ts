@@ -0,0 +1,156 @@
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import path from "path";
+import { type MortiseTemplate, type RenderJobSnapshot } from "@shared/schema";
+import { type IStorage, storage } from "./storage";
+import { RenderError } from "./renderer";
+import { analyzeManufacturability, printerProfile } from "./manufacturability";
+
+export interface RenderJobQueueOptions {
+  concurrency: number;
+  timeoutMs: number;
+  maxQueued: number;
+  retentionMs: number;
+}
+
+interface RenderJob extends RenderJobSnapshot {
+  params: MortiseTemplate;
+}
+
+// OpenSCAD does not report a percentage, so map the milestones it prints on
+// stderr onto a rough progress scale.
+const PROGRESS_MILESTONES: Array<{ pattern: RegExp; progress: number; stage: string }> = [
+  { pattern: /^Parsing design/i, progress: 15, stage: "Parsing design" },
+  { pattern: /^Compiling design/i, progress: 20, stage: "Compiling design" },
+  { pattern: /^Rendering Polygon Mesh/i, progress: 40, stage: "Rendering mesh" },
+  { pattern: /^Geometries in cache/i, progress: 75, stage: "Rendering mesh" },
+  { pattern: /^Total rendering time/i, progress: 85, stage: "Finishing render" },
+  { pattern: /^(Top level object is a 3D object|Simple:)/i, progress: 90, stage: "Exporting STL" },
+];
+
+// Keep the tail of OpenSCAD's stderr for the client
+const MAX_LOG_LINES = 200;
+
+export class QueueFullError extends Error {}
+
+export class RenderJobQueue extends EventEmitter {
+  private jobs = new Map<string, RenderJob>();
+  // Queued jobs and direct renders, each started when a slot frees up
+  private queue: Array<() => Promise<void>> = [];
+  private running = 0;
+
+  constructor(private storage: IStorage, private options: RenderJobQueueOptions) {
+    super();
+    // Every open event stream subscribes; don't warn about many listeners
+    this.setMaxListeners(0);
+  }
+
+  enqueue(params: MortiseTemplate): RenderJobSnapshot {
+    this.checkQueue();
+
+    const job: RenderJob = {
+      id: randomUUID(),
+      status: "queued",
+      progress: 0,
+      stage: "Waiting in queue",
+      log: [],
+      createdAt: Date.now(),
+      params,
+    };
+    this.jobs.set(job.id, job);
+    this.queue.push(() => this.run(job));
+    this.update(job);
+    this.pump();
+    return this.snapshot(job);
+  }
+
+  // Run a render that isn't tracked as a job, such as a direct download, in
+  // the same slots as the jobs so it counts against their concurrency and
+  // queue limit and gets their timeout
+  schedule<T>(render: (options: { timeoutMs: number }) => Promise<T>): Promise<T> {
+    this.checkQueue();
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push(() => render({ timeoutMs: this.options.timeoutMs }).then(resolve, reject));
+      this.pump();
+    });
+  }
+
+  get(id: string): RenderJobSnapshot | undefined {
+    const job = this.jobs.get(id);
+    return job ? this.snapshot(job) : undefined;
+  }
+
+  private checkQueue() {
+    if (this.queue.length >= this.options.maxQueued) {
+      throw new QueueFullError("Too many renders are queued, try again shortly");
+    }
+  }
+
+  private snapshot({ params, ...job }: RenderJob): RenderJobSnapshot {
+    return { ...job, log: [...job.log] };
+  }
+
+  private update(job: RenderJob, changes: Partial<RenderJobSnapshot> = {}) {
+    Object.assign(job, changes);
+    this.emit("update", this.snapshot(job));
+  }
+
+  private pump() {
+    while (this.running < this.options.concurrency && this.queue.length > 0) {
+      const start = this.queue.shift()!;
+      this.running++;
+      start().finally(() => {
+        this.running--;
+        this.pump();
+      });
+    }
+  }
+
+  private async run(job: RenderJob) {
+    this.update(job, { status: "running", progress: 10, stage: "Generating OpenSCAD model", startedAt: Date.now() });
+
+    try {
+      const { filePath, cached } = await this.storage.generateSTLFile(job.params, {
+        timeoutMs: this.options.timeoutMs,
+        onLog: line => {
+          job.log.push(line);
+          if (job.log.length > MAX_LOG_LINES) job.log.shift();
+          const milestone = PROGRESS_MILESTONES.find(({ pattern }) => pattern.test(line.trim()));
+          if (milestone && milestone.progress > job.progress) {
+            this.update(job, { progress: milestone.progress, stage: milestone.stage });
+          } else {
+            this.update(job);
+          }
+        },
+      });
+
+      this.update(job, {
+        status: "done",
+        progress: 100,
+        stage: cached ? "Loaded from cache" : "Render complete",
+        previewUrl: `/api/preview/${path.basename(filePath)}`,
+        cached,
+        report: analyzeManufacturability(job.params, printerProfile),
+        finishedAt: Date.now(),
+      });
+    } catch (error) {
+      this.update(job, {
+        status: "failed",
+        stage: error instanceof RenderError && error.reason === "timeout" ? "Render timed out" : "Render failed",
+        error: error instanceof Error ? error.message : "Failed to generate STL file",
+        diagnostics: error instanceof RenderError ? error.diagnostics : undefined,
+        finishedAt: Date.now(),
+      });
+    }
+
+    // Forget finished jobs after a while so the map doesn't grow forever
+    setTimeout(() => this.jobs.delete(job.id), this.options.retentionMs).unref();
+  }
+}
+
+export const renderJobs = new RenderJobQueue(storage, {
+  concurrency: Number(process.env.RENDER_CONCURRENCY) || 2,
+  timeoutMs: (Number(process.env.RENDER_TIMEOUT_SECONDS) || 120) * 1000,
+  maxQueued: Number(process.env.RENDER_QUEUE_LIMIT) || 50,
+  retentionMs: 60 * 60 * 1000,
+});
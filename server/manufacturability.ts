@@ -0,0 +1,92 @@
+import { type ManufacturabilityIssue, type ManufacturabilityReport, type MortiseTemplate } from "@shared/schema";
+import { computeTemplateLayout, plateWalls } from "@shared/geometry";
+
+// Checks the planned geometry against the printer it will be printed on, so
+// problems show up before a long print rather than after it.
+
+export interface PrinterProfile {
+  bedX: number;
+  bedY: number;
+  nozzle: number;
+  minWall: number;
+}
+
+// Stroke width of Liberation Sans relative to OpenSCAD's text size. A stroke
+// narrower than the nozzle prints as a smear or not at all.
+const STROKE_RATIO = 0.12;
+
+const mm = (value: number, digits = 1) => `${Number(value.toFixed(digits))} mm`;
+
+export function analyzeManufacturability(params: MortiseTemplate, printer: PrinterProfile): ManufacturabilityReport {
+  const layout = computeTemplateLayout(params);
+  const walls = plateWalls(layout);
+  const issues: ManufacturabilityIssue[] = [];
+  const warn = (code: ManufacturabilityIssue["code"], message: string, level: ManufacturabilityIssue["level"] = "warning") =>
+    issues.push({ level, code, message });
+
+  // Either way round on the bed will do
+  const length = layout.total_length;
+  const width = layout.print_width;
+  const fits = (length <= printer.bedX && width <= printer.bedY) || (length <= printer.bedY && width <= printer.bedX);
+  if (!fits) {
+    warn("bed_size",
+      `The template is ${mm(length)} x ${mm(width)}, larger than the ${mm(printer.bedX)} x ${mm(printer.bedY)} printer bed`,
+      "error");
+  }
+
+  const thinnest = Math.min(walls.beside, walls.ends, walls.between);
+  if (thinnest < printer.minWall) {
+    warn("thin_wall", `The plate is only ${mm(thinnest)} wide next to a cutout; the minimum is ${mm(printer.minWall)}`);
+  }
+
+  // Top and underside engravings may overlap
+  const engravings = (layout.label.style === "engrave" ? 1 : 0) + (layout.underside_label ? 1 : 0);
+  const engraved = engravings > 0;
+  const floor = layout.thickness - engravings * layout.engrave_depth;
+  if (floor < printer.minWall) {
+    warn("thin_plate",
+      `The plate is only ${mm(floor)} thick${engraved ? " under the engraving" : ""}; the minimum is ${mm(printer.minWall)}`);
+  }
+
+  if (walls.fence < printer.minWall) {
+    warn("thin_fence", `The fence is only ${mm(walls.fence)} thick where the cutout runs into it; the minimum is ${mm(printer.minWall)}`);
+  }
+
+  if (layout.edge_below > 0) {
+    warn("plate_bridged",
+      `The fences reach ${mm(layout.edge_below)} below the plate, so it prints as a bridge between them; print with supports under the plate`);
+  }
+
+  const labelSize = Math.min(layout.label.size, layout.underside_label?.size ?? Infinity);
+  if (labelSize < params.label_size) {
+    warn("label_shrunk", labelSize > 0
+      ? `The label was reduced from size ${params.label_size} to ${labelSize} to fit the plate; engrave fewer lines or lengthen the extensions`
+      : "There is no room on the plate for the label; engrave fewer lines or lengthen the extensions");
+  }
+
+  const stroke = layout.label.size * STROKE_RATIO;
+  if (layout.label.size > 0 && stroke < printer.nozzle) {
+    warn("text_too_small",
+      `Label text at size ${layout.label.size} has ${mm(stroke, 2)} strokes, finer than the ${mm(printer.nozzle, 2)} nozzle; it may not be legible`);
+  }
+
+  const { mounting } = layout;
+  const missing = [
+    ...(params.screw_holes && mounting.screw_holes.length === 0 ? ["screw holes"] : []),
+    ...(params.clamp_slots && mounting.clamp_slots.length === 0 ? ["clamp slots"] : []),
+    ...(params.pad_pockets && mounting.pad_pockets.length === 0 ? ["pad pockets"] : []),
+  ];
+  if (missing.length > 0) {
+    warn("mounting_skipped",
+      `There is no room for ${missing.join(" or ")} clear of the cutouts and router base; lengthen the extensions or use clamps`);
+  }
+
+  return { issues, printer };
+}
+
+export const printerProfile: PrinterProfile = {
+  bedX: Number(process.env.PRINTER_BED_X_MM) || 220,
+  bedY: Number(process.env.PRINTER_BED_Y_MM) || 220,
+  nozzle: Number(process.env.NOZZLE_DIAMETER_MM) || 0.4,
+  minWall: Number(process.env.MIN_WALL_MM) || 1.6,
+};
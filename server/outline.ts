@@ -0,0 +1,217 @@
+import { type MortiseTemplate } from "@shared/schema";
+import { computeTemplateLayout, fenceOutlines, type RoundedRect, type TemplateLayout } from "@shared/geometry";
+import { type LabelFont } from "@shared/label";
+import { SCREW_CLEARANCE } from "@shared/mounting";
+
+// Flat plan-view exports for laser cutters and CNC routers. Both formats carry
+// the same layers: the plate outline and mortise cutout to cut through, the
+// fence footprint to score (the fence is glued on as a separate strip when the
+// template is cut from sheet stock), and the engraved label.
+
+export type OutlineFormat = "dxf" | "svg";
+
+// OpenSCAD's text size is roughly the cap height; SVG and DXF size text by
+// the em box, which is about 1.4 times larger
+const TEXT_EM_SCALE = 1.4;
+
+// Keep the corner radius within the cutout, as the OpenSCAD hull effectively does
+function cornerRadius(rect: RoundedRect): number {
+  return Math.min(rect.radius, rect.width / 2, rect.length / 2);
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Everything cut through the plate: the mortise cutouts, then the screw
+// holes (countersinking is left to the drill), clamp slots and the
+// adjustable fence's bolt slots
+function throughCuts(layout: TemplateLayout): RoundedRect[] {
+  const r = SCREW_CLEARANCE / 2;
+  return [
+    ...layout.cutouts,
+    ...layout.mounting.screw_holes.map(hole => ({ x: hole.x - r, y: hole.y - r, length: 2 * r, width: 2 * r, radius: r })),
+    ...layout.mounting.clamp_slots.map(slot => ({ ...slot, radius: slot.length / 2 })),
+    ...layout.fence_slots.map(slot => ({ ...slot, radius: slot.length / 2 })),
+  ];
+}
+
+// CSS font stack for an OpenSCAD font name such as "Liberation Sans:style=Bold"
+function svgFontFamily(font: LabelFont): string {
+  const family = font.split(":")[0];
+  if (family.endsWith("Mono")) return `${family}, Courier New, monospace`;
+  if (family.endsWith("Serif")) return `${family}, Times New Roman, serif`;
+  return `${family}, Arial, sans-serif`;
+}
+
+export function generateSVG(params: MortiseTemplate): string {
+  const layout = computeTemplateLayout(params);
+  const { total_length: L, total_width: W, overall_width: H, label, copies, reference_mark } = layout;
+  // SVG's y axis points down; flip so the drawing matches the 3D model seen from above
+  const flip = (y: number) => round(H - y);
+
+  const layer = (draw: (dy: number, lines: string[]) => string) =>
+    copies.map(({ dy, lines }) => draw(dy, lines)).join("\n");
+
+  const outlines = layer(dy =>
+    `    <rect x="0" y="${flip(dy + W)}" width="${round(L)}" height="${round(W)}" />`);
+  const cutoutRects = layer(dy => throughCuts(layout)
+    .map(cutout => {
+      const r = round(cornerRadius(cutout));
+      // Counterclockwise in plan is clockwise once y is flipped
+      const skew = cutout.angle
+        ? ` transform="rotate(${round(-cutout.angle)} ${round(cutout.x + cutout.length / 2)} ${flip(dy + cutout.y + cutout.width / 2)})"`
+        : "";
+      return `    <rect x="${round(cutout.x)}" y="${flip(dy + cutout.y + cutout.width)}" width="${round(cutout.length)}" height="${round(cutout.width)}" rx="${r}" ry="${r}"${skew} />`;
+    })
+    .join("\n"));
+  const fences = layer(dy => fenceOutlines(layout)
+    .map(block => `    <rect x="${round(block.x)}" y="${flip(dy + block.y + block.width)}" width="${round(block.length)}" height="${round(block.width)}" />`)
+    .join("\n"));
+  const engravings = layer((dy, lines) => [
+    ...lines.map((line, i) =>
+      `    <text x="${round(label.x)}" y="${flip(dy + label.y - label.lineSpacing * i)}">${escapeXml(line)}</text>`),
+    ...(reference_mark
+      ? [`    <polygon points="${reference_mark.points.map(([x, y]) => `${round(x)},${flip(dy + y)}`).join(" ")}" />`]
+      : []),
+  ].join("\n"));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape"
+     width="${round(L)}mm" height="${round(H)}mm" viewBox="0 0 ${round(L)} ${round(H)}">
+  <g id="outline" inkscape:groupmode="layer" inkscape:label="Outline" fill="none" stroke="#ff0000" stroke-width="0.1">
+${outlines}
+  </g>
+  <g id="cutout" inkscape:groupmode="layer" inkscape:label="Cutout" fill="none" stroke="#ff0000" stroke-width="0.1">
+${cutoutRects}
+  </g>
+  <g id="fence" inkscape:groupmode="layer" inkscape:label="Fence" fill="none" stroke="#0000ff" stroke-width="0.1">
+${fences}
+  </g>
+  <g id="engrave" inkscape:groupmode="layer" inkscape:label="Engrave" fill="#000000" stroke="none"
+     font-family="${svgFontFamily(label.font)}" font-weight="${label.font.includes("Bold") ? "bold" : "normal"}" font-size="${round(label.size * TEXT_EM_SCALE)}">
+${engravings}
+  </g>
+</svg>
+`;
+}
+
+// DXF layers and their ACI colours
+const DXF_LAYERS = [
+  { name: "OUTLINE", color: 1 },
+  { name: "CUTOUT", color: 1 },
+  { name: "FENCE", color: 5 },
+  { name: "ENGRAVE", color: 7 },
+];
+
+function dxfPairs(pairs: Array<[number, string | number]>): string[] {
+  return pairs.flatMap(([code, value]) => [String(code), typeof value === "number" ? String(round(value)) : value]);
+}
+
+function dxfLine(layer: string, x1: number, y1: number, x2: number, y2: number): string[] {
+  return dxfPairs([[0, "LINE"], [8, layer], [10, x1], [20, y1], [30, 0], [11, x2], [21, y2], [31, 0]]);
+}
+
+function dxfArc(layer: string, cx: number, cy: number, radius: number, startAngle: number, endAngle: number): string[] {
+  return dxfPairs([[0, "ARC"], [8, layer], [10, cx], [20, cy], [30, 0], [40, radius], [50, startAngle], [51, endAngle]]);
+}
+
+function dxfRect(layer: string, x: number, y: number, length: number, width: number): string[] {
+  return [
+    ...dxfLine(layer, x, y, x + length, y),
+    ...dxfLine(layer, x + length, y, x + length, y + width),
+    ...dxfLine(layer, x + length, y + width, x, y + width),
+    ...dxfLine(layer, x, y + width, x, y),
+  ];
+}
+
+function dxfRoundedRect(layer: string, rect: RoundedRect): string[] {
+  const r = cornerRadius(rect);
+  const { x, y, length, width } = rect;
+  const angle = rect.angle ?? 0;
+  const entities: string[] = [];
+
+  // Drawn unskewed, then turned about the center by the rect's angle
+  const turn = angle * Math.PI / 180;
+  const cx = x + length / 2;
+  const cy = y + width / 2;
+  const at = (px: number, py: number): [number, number] => [
+    cx + (px - cx) * Math.cos(turn) - (py - cy) * Math.sin(turn),
+    cy + (px - cx) * Math.sin(turn) + (py - cy) * Math.cos(turn),
+  ];
+  const line = (x1: number, y1: number, x2: number, y2: number) => dxfLine(layer, ...at(x1, y1), ...at(x2, y2));
+  const arc = (px: number, py: number, start: number) =>
+    dxfArc(layer, ...at(px, py), r, (start + angle + 360) % 360, (start + angle + 450) % 360 || 360);
+
+  // Straight edges, skipped where the arcs meet (a slot with r = width / 2)
+  if (length > 2 * r) {
+    entities.push(...line(x + r, y, x + length - r, y));
+    entities.push(...line(x + length - r, y + width, x + r, y + width));
+  }
+  if (width > 2 * r) {
+    entities.push(...line(x + length, y + r, x + length, y + width - r));
+    entities.push(...line(x, y + width - r, x, y + r));
+  }
+
+  // Corner arcs run counterclockwise
+  entities.push(...arc(x + length - r, y + r, 270));
+  entities.push(...arc(x + length - r, y + width - r, 0));
+  entities.push(...arc(x + r, y + width - r, 90));
+  entities.push(...arc(x + r, y + r, 180));
+  return entities;
+}
+
+function dxfText(layer: string, x: number, y: number, height: number, value: string): string[] {
+  return dxfPairs([[0, "TEXT"], [8, layer], [10, x], [20, y], [30, 0], [40, height], [1, value]]);
+}
+
+function dxfPolygon(layer: string, points: Array<[number, number]>): string[] {
+  return points.flatMap(([x1, y1], i) => {
+    const [x2, y2] = points[(i + 1) % points.length];
+    return dxfLine(layer, x1, y1, x2, y2);
+  });
+}
+
+function dxfEntities(layout: TemplateLayout): string[] {
+  const { total_length: L, total_width: W, label, reference_mark } = layout;
+  return layout.copies.flatMap(({ dy, lines }) => [
+    ...dxfRect("OUTLINE", 0, dy, L, W),
+    ...throughCuts(layout).flatMap(cutout => dxfRoundedRect("CUTOUT", { ...cutout, y: cutout.y + dy })),
+    ...fenceOutlines(layout).flatMap(block => dxfRect("FENCE", block.x, dy + block.y, block.length, block.width)),
+    ...lines.flatMap((line, i) =>
+      dxfText("ENGRAVE", label.x, dy + label.y - label.lineSpacing * i, label.size, line)),
+    ...(reference_mark
+      ? dxfPolygon("ENGRAVE", reference_mark.points.map(([x, y]) => [x, y + dy] as [number, number]))
+      : []),
+  ]);
+}
+
+// ASCII DXF (AC1009 / R12 entities) in millimetres
+export function generateDXF(params: MortiseTemplate): string {
+  const layout = computeTemplateLayout(params);
+
+  const lines = [
+    ...dxfPairs([[0, "SECTION"], [2, "HEADER"], [9, "$ACADVER"], [1, "AC1009"], [9, "$INSUNITS"], [70, "4"], [9, "$MEASUREMENT"], [70, "1"], [0, "ENDSEC"]]),
+    ...dxfPairs([[0, "SECTION"], [2, "TABLES"], [0, "TABLE"], [2, "LAYER"], [70, String(DXF_LAYERS.length)]]),
+    ...DXF_LAYERS.flatMap(({ name, color }) =>
+      dxfPairs([[0, "LAYER"], [2, name], [70, "0"], [62, String(color)], [6, "CONTINUOUS"]])),
+    ...dxfPairs([[0, "ENDTAB"], [0, "ENDSEC"]]),
+    ...dxfPairs([[0, "SECTION"], [2, "ENTITIES"]]),
+    ...dxfEntities(layout),
+    ...dxfPairs([[0, "ENDSEC"], [0, "EOF"]]),
+  ];
+
+  return lines.join("\n") + "\n";
+}
+
+export function generateOutline(params: MortiseTemplate, format: OutlineFormat): string {
+  return format === "dxf" ? generateDXF(params) : generateSVG(params);
+}
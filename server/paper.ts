@@ -0,0 +1,287 @@
+import PDFDocument from "pdfkit";
+import { type MortiseTemplate } from "@shared/schema";
+import { bushingOffset, computeTemplateLayout, fenceOutlines, resolveMortise, INCH, type TemplateLayout } from "@shared/geometry";
+import { formatInches, fractionFormat } from "@shared/format";
+import { HINGE_CATALOG } from "@shared/hinges";
+import { type LabelFont } from "@shared/label";
+import { millimetres, toInches, toMm, type Measurement } from "@shared/units";
+
+// Full-scale paper pattern: an instruction sheet with calibration rulers and a
+// dimension table, followed by the template outline at 1:1, tiled across as
+// many sheets as it needs.
+
+export type PaperSize = "letter" | "a4";
+
+const PAPER_SIZES: Record<PaperSize, { width: number; height: number; name: string }> = {
+  letter: { width: 215.9, height: 279.4, name: "LETTER" },
+  a4: { width: 210, height: 297, name: "A4" },
+};
+
+const MARGIN = 12.7; // mm; most printers can't reach closer to the edge
+const FOOTER = 10; // mm reserved under each tile for its caption
+const OVERLAP = 10; // mm of the template repeated on neighbouring sheets
+
+const PT_PER_MM = 72 / INCH;
+const pt = (mm: number) => mm * PT_PER_MM;
+
+interface TilePlan {
+  layout: "portrait" | "landscape";
+  pageWidth: number;
+  pageHeight: number;
+  areaWidth: number;
+  areaHeight: number;
+  columns: number;
+  rows: number;
+}
+
+function tileCount(length: number, area: number): number {
+  return length <= area ? 1 : Math.ceil((length - OVERLAP) / (area - OVERLAP));
+}
+
+// Pick whichever orientation needs fewer sheets
+function planTiles(template: TemplateLayout, paper: PaperSize): TilePlan {
+  const { width, height } = PAPER_SIZES[paper];
+  const plans = (["portrait", "landscape"] as const).map(orientation => {
+    const pageWidth = orientation === "portrait" ? width : height;
+    const pageHeight = orientation === "portrait" ? height : width;
+    const areaWidth = pageWidth - MARGIN * 2;
+    const areaHeight = pageHeight - MARGIN * 2 - FOOTER;
+    return {
+      layout: orientation,
+      pageWidth,
+      pageHeight,
+      areaWidth,
+      areaHeight,
+      columns: tileCount(template.total_length, areaWidth),
+      rows: tileCount(template.overall_width, areaHeight),
+    };
+  });
+  return plans.reduce((best, plan) =>
+    plan.columns * plan.rows < best.columns * best.rows ? plan : best);
+}
+
+// Both units, the template's own unit system first
+function formatLength(length: Measurement, params: MortiseTemplate): string {
+  const fraction = formatInches(toInches(length), fractionFormat(params));
+  return params.unit_system === "metric"
+    ? `${Number(toMm(length).toFixed(2))} mm (${fraction})`
+    : `${fraction} (${toMm(length).toFixed(1)} mm)`;
+}
+
+function drawRuler(doc: PDFKit.PDFDocument, x: number, y: number, length: number, step: number, majorEvery: number, unitLabel: (i: number) => string) {
+  doc.lineWidth(0.5).moveTo(pt(x), pt(y)).lineTo(pt(x + length), pt(y)).stroke();
+  const ticks = Math.round(length / step);
+  for (let i = 0; i <= ticks; i++) {
+    const tickX = pt(x + i * step);
+    const major = i % majorEvery === 0;
+    doc.moveTo(tickX, pt(y)).lineTo(tickX, pt(y - (major ? 4 : 2))).stroke();
+    if (major) {
+      doc.fontSize(7).text(unitLabel(i / majorEvery), tickX - 10, pt(y + 1), { width: 20, align: "center" });
+    }
+  }
+}
+
+// Where the mortises sit when there is more than one, center to center
+function mortiseRows(template: TemplateLayout, params: MortiseTemplate): Array<[string, string]> {
+  const { cutouts } = template;
+  if (cutouts.length < 2) return [];
+  const centers = cutouts.map(cutout => cutout.x - cutouts[0].x);
+  const format = (mm: number) => params.unit_system === "metric"
+    ? `${Number(mm.toFixed(2))} mm`
+    : formatInches(mm / INCH, fractionFormat(params));
+  return [
+    ["Mortise count", String(cutouts.length)],
+    ["Centers from the first", centers.slice(1).map(format).join(", ")],
+  ];
+}
+
+function drawInstructionSheet(doc: PDFKit.PDFDocument, params: MortiseTemplate, template: TemplateLayout, plan: TilePlan) {
+  const left = pt(MARGIN);
+  const width = doc.page.width - left * 2;
+  const sheets = plan.columns * plan.rows;
+
+  doc.font("Helvetica-Bold").fontSize(18).text("Mortise Template - Paper Pattern", left, pt(MARGIN), { width });
+  doc.font("Helvetica").fontSize(10).moveDown(0.5)
+    .text("Print at 100% (\"Actual size\"). Do not use \"Fit to page\". Check both rulers below with a tape measure before cutting.", { width })
+    .moveDown(0.5)
+    .text(`The pattern spans ${sheets} sheet${sheets === 1 ? "" : "s"} (${plan.columns} across x ${plan.rows} down). ` +
+      `Neighbouring sheets repeat ${OVERLAP} mm of the pattern: trim each sheet along its grey border, lay the trimmed edge on the blue dashed line of the sheet before it, then tape.`, { width });
+
+  // Calibration rulers
+  const rulerTop = 60;
+  doc.font("Helvetica-Bold").fontSize(11).text("Calibration", left, pt(rulerTop));
+  doc.font("Helvetica").fontSize(9).text("This ruler must measure exactly 100 mm:", left, pt(rulerTop + 7));
+  drawRuler(doc, MARGIN, rulerTop + 20, 100, 1, 10, i => `${i * 10}`);
+  doc.fontSize(9).text("This ruler must measure exactly 4 inches:", left, pt(rulerTop + 30));
+  drawRuler(doc, MARGIN, rulerTop + 43, 4 * INCH, INCH / 16, 16, i => `${i}"`);
+
+  // Dimension table
+  const format = (length: Measurement) => formatLength(length, params);
+  const size = resolveMortise(params);
+  const modeRows: Array<[string, string]> = params.template_mode === "loose_tenon"
+    ? [
+        ["Tenon stock", `${format(params.tenon_thickness)} x ${format(params.tenon_width)} x ${format(params.tenon_length)}`],
+        ["Mortise depth (each board)", format(size.depth!)],
+        ["Templates", params.loose_tenon_layout === "pair" ? "Pair (board A and board B)" : "Reversible (one for both boards)"],
+      ]
+    : params.template_mode === "hinge"
+      ? [
+          ["Hinge", params.hinge_size === "custom" ? "Custom" : HINGE_CATALOG[params.hinge_size].name],
+          ["Mortise depth (leaf thickness)", format(size.depth!)],
+          ["Corners", size.corner_radius === undefined ? "Square - chisel after routing" : `Radius ${format(size.corner_radius)}`],
+        ]
+      : params.template_mode === "through"
+        ? [
+            ["Board thickness", format(params.through_thickness)],
+            ["Mortise depth (from each face)", format(size.depth!)],
+            ["Second face", "Turn the template over (FACE B up), fence against the same reference face"],
+          ]
+        : [];
+  const rows: Array<[string, string]> = [
+    ...modeRows,
+    ["Mortise length", format(size.length)],
+    ["Mortise width", format(size.width)],
+    ["Router bit diameter", format(params.bit_diameter)],
+    ["Guide bushing diameter", format(params.bushing_OD)],
+    ["Bushing offset (per side)", format(bushingOffset(params))],
+    ["Cutout size", `${format(millimetres(template.cutouts[0].length))} x ${format(millimetres(template.cutouts[0].width))}`],
+    ...mortiseRows(template, params),
+    [params.template_mode === "hinge" ? "Setback from door face" : "Edge distance", format(size.edge_distance)],
+    ["Fence side", params.edge_position === "left" ? "Left" : "Right"],
+    ["Template size", `${format(millimetres(template.total_length))} x ${format(millimetres(template.total_width))}`],
+    ["Template thickness", format(params.template_thickness)],
+    ...(params.tilt_angle || params.splay_angle
+      ? [["Router angle", `Tilt ${params.tilt_angle}°, splay ${params.splay_angle}° (printed wedge)`] as [string, string]]
+      : []),
+    ...(params.mortise_rotation ? [["Skew to fence", `${params.mortise_rotation}°`] as [string, string]] : []),
+  ];
+
+  const tableTop = rulerTop + 60;
+  const rowHeight = 7;
+  doc.font("Helvetica-Bold").fontSize(11).text("Dimensions", left, pt(tableTop));
+  rows.forEach(([label, value], i) => {
+    const y = tableTop + 8 + i * rowHeight;
+    if (i % 2 === 0) {
+      doc.rect(left, pt(y - 1.5), width, pt(rowHeight)).fill("#f1f5f9");
+    }
+    doc.fillColor("#000000").font("Helvetica").fontSize(10)
+      .text(label, left + 4, pt(y), { lineBreak: false })
+      .text(value, left + pt(70), pt(y), { lineBreak: false });
+  });
+}
+
+// Draw the template with its top-left corner (plan coordinates x = 0, y = overall_width) at originX/originY, in mm
+function drawTemplate(doc: PDFKit.PDFDocument, template: TemplateLayout, originX: number, originY: number) {
+  template.copies.forEach(({ dy, lines }) =>
+    drawPlate(doc, template, lines, originX, originY + template.overall_width - template.total_width - dy));
+}
+
+// PDF standard fonts closest to each label font
+const PDF_FONTS: Record<LabelFont, string> = {
+  "Liberation Sans": "Helvetica",
+  "Liberation Sans:style=Bold": "Helvetica-Bold",
+  "Liberation Serif": "Times-Roman",
+  "Liberation Mono": "Courier",
+};
+
+// One plate of the template, its top-left corner at originX/originY
+function drawPlate(doc: PDFKit.PDFDocument, template: TemplateLayout, lines: string[], originX: number, originY: number) {
+  const X = (x: number) => pt(originX + x);
+  const Y = (y: number) => pt(originY + template.total_width - y);
+  const { cutouts, label, reference_mark } = template;
+
+  doc.lineWidth(0.75).strokeColor("#000000")
+    .rect(X(0), Y(template.total_width), pt(template.total_length), pt(template.total_width)).stroke();
+
+  cutouts.forEach(cutout => {
+    const radius = Math.min(cutout.radius, cutout.width / 2, cutout.length / 2);
+    // Page y runs down, so a counterclockwise skew turns the other way
+    doc.save().rotate(-(cutout.angle ?? 0), { origin: [X(cutout.x + cutout.length / 2), Y(cutout.y + cutout.width / 2)] });
+    doc.roundedRect(X(cutout.x), Y(cutout.y + cutout.width), pt(cutout.length), pt(cutout.width), pt(radius))
+      .fillAndStroke("#d4d4d8", "#000000");
+    doc.restore();
+  });
+
+  doc.save().lineWidth(0.5).dash(4, { space: 3 });
+  fenceOutlines(template).forEach(block => doc.rect(X(block.x), Y(block.y + block.width), pt(block.length), pt(block.width)));
+  doc.stroke().undash().restore();
+  doc.fillColor("#000000").font("Helvetica").fontSize(8)
+    .text("FENCE", X(4), Y(template.fence_y + template.edge_thickness / 2), { lineBreak: false, baseline: "middle" });
+
+  if (label.size > 0) {
+    doc.font(PDF_FONTS[label.font]).fontSize(pt(label.size * 1.4));
+    lines.forEach((line, i) => {
+      doc.text(line, X(label.x), Y(label.y - label.lineSpacing * i), { lineBreak: false, baseline: "alphabetic" });
+    });
+  }
+
+  if (reference_mark) {
+    const [first, ...rest] = reference_mark.points;
+    doc.moveTo(X(first[0]), Y(first[1]));
+    rest.forEach(([x, y]) => doc.lineTo(X(x), Y(y)));
+    doc.closePath().fill("#000000");
+  }
+}
+
+function drawTile(doc: PDFKit.PDFDocument, template: TemplateLayout, plan: TilePlan, column: number, row: number) {
+  const stepX = plan.areaWidth - OVERLAP;
+  const stepY = plan.areaHeight - OVERLAP;
+
+  doc.save();
+  doc.rect(pt(MARGIN), pt(MARGIN), pt(plan.areaWidth), pt(plan.areaHeight)).clip();
+  drawTemplate(doc, template, MARGIN - column * stepX, MARGIN - row * stepY);
+  doc.restore();
+
+  // Alignment lines where the next sheet to the right / below begins
+  doc.save().lineWidth(0.5).strokeColor("#2563eb").dash(2, { space: 2 });
+  if (column < plan.columns - 1) {
+    const x = pt(MARGIN + stepX);
+    doc.moveTo(x, pt(MARGIN)).lineTo(x, pt(MARGIN + plan.areaHeight)).stroke();
+  }
+  if (row < plan.rows - 1) {
+    const y = pt(MARGIN + stepY);
+    doc.moveTo(pt(MARGIN), y).lineTo(pt(MARGIN + plan.areaWidth), y).stroke();
+  }
+  doc.undash().restore();
+
+  // Printable area border and caption
+  doc.lineWidth(0.25).strokeColor("#a1a1aa")
+    .rect(pt(MARGIN), pt(MARGIN), pt(plan.areaWidth), pt(plan.areaHeight)).stroke();
+  const sheet = row * plan.columns + column + 1;
+  doc.fillColor("#000000").font("Helvetica").fontSize(8).text(
+    `Sheet ${sheet} of ${plan.columns * plan.rows} - row ${row + 1}, column ${column + 1} - printed at 1:1 scale`,
+    pt(MARGIN), pt(MARGIN + plan.areaHeight + 3), { lineBreak: false },
+  );
+}
+
+export function generatePaperTemplate(params: MortiseTemplate, paper: PaperSize): Promise<Buffer> {
+  const template = computeTemplateLayout(params);
+  const plan = planTiles(template, paper);
+  const size = PAPER_SIZES[paper].name;
+
+  const doc = new PDFDocument({
+    autoFirstPage: false,
+    margin: 0,
+    info: { Title: "Mortise Template - Paper Pattern", Creator: "3D Mortise Template Generator" },
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  doc.addPage({ size, layout: "portrait", margin: 0 });
+  drawInstructionSheet(doc, params, template, plan);
+
+  for (let row = 0; row < plan.rows; row++) {
+    for (let column = 0; column < plan.columns; column++) {
+      doc.addPage({ size, layout: plan.layout, margin: 0 });
+      drawTile(doc, template, plan, column, row);
+    }
+  }
+
+  doc.end();
+  return finished;
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import * as THREE from "three";
+import { mortiseTemplateSchema } from "@shared/schema";
+import { computeTemplateLayout } from "@shared/geometry";
+import { buildPreviewGeometry } from "@/lib/preview-geometry";
+import { generateOpenSCADContent } from "./scad";
+
+// The in-browser preview must agree with the OpenSCAD model it stands in
+// for: the same overall size, and cutouts of the same size that run clear
+// through everything under them along the router's axis.
+
+const imperial = {
+  unit_system: "imperial",
+  bushing_OD: { value: 0.3125, unit: "in" },
+  bit_diameter: { value: 0.25, unit: "in" },
+  mortise_length: { value: 1.75, unit: "in" },
+  mortise_width: { value: 0.375, unit: "in" },
+  edge_distance: { value: 0.25, unit: "in" },
+  extension_length: { value: 3, unit: "in" },
+  extension_width: { value: 3, unit: "in" },
+  template_thickness: { value: 0.25, unit: "in" },
+  edge_position: "right",
+};
+
+const metric = {
+  unit_system: "metric",
+  bushing_OD: { value: 10, unit: "mm" },
+  bit_diameter: { value: 6, unit: "mm" },
+  mortise_length: { value: 40, unit: "mm" },
+  mortise_width: { value: 8, unit: "mm" },
+  edge_distance: { value: 8, unit: "mm" },
+  extension_length: { value: 60, unit: "mm" },
+  extension_width: { value: 60, unit: "mm" },
+  template_thickness: { value: 6, unit: "mm" },
+  edge_position: "left",
+};
+
+const CASES: Record<string, object> = {
+  imperial,
+  metric,
+  "through mortise": { ...imperial, template_mode: "through" },
+  angled: { ...imperial, tilt_angle: 10, splay_angle: 5 },
+  "angled and skewed": { ...metric, tilt_angle: -15, mortise_rotation: 20, mortise_count: 2 },
+};
+
+// A variable assigned in the OpenSCAD source
+function scadValue(scad: string, name: string): unknown {
+  const match = scad.match(new RegExp(`^${name} = (.*);$`, "m"));
+  if (!match) throw new Error(`${name} is not set in the OpenSCAD source`);
+  return JSON.parse(match[1]);
+}
+
+const isNumbers = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(item => typeof item === "number");
+
+function scadNumber(scad: string, name: string): number {
+  const value = scadValue(scad, name);
+  if (typeof value !== "number") throw new Error(`${name} is not a number`);
+  return value;
+}
+
+function scadVector(scad: string, name: string): number[] {
+  const value = scadValue(scad, name);
+  if (!isNumbers(value)) throw new Error(`${name} is not a list of numbers`);
+  return value;
+}
+
+// A list of rows, like the cutouts' [x, y, angle]
+function scadRows(scad: string, name: string): number[][] {
+  const value = scadValue(scad, name);
+  if (!Array.isArray(value) || !value.every(isNumbers)) throw new Error(`${name} is not a list of rows`);
+  return value;
+}
+
+const radians = (degrees: number) => degrees * Math.PI / 180;
+
+// OpenSCAD's tilted(), worked out independently of the preview's matrices
+function tilted(scad: string, [x, y, z]: [number, number, number]): THREE.Vector3 {
+  const [px, py] = scadVector(scad, "pivot");
+  const [sx, sy] = scadVector(scad, "shift");
+  const t = radians(scadNumber(scad, "tilt"));
+  const s = radians(scadNumber(scad, "splay"));
+  const [ax, ay, az] = [x - px, y - py, z];
+  const [bx, by, bz] = [ax, ay * Math.cos(t) - az * Math.sin(t), ay * Math.sin(t) + az * Math.cos(t)];
+  const [cx, cy, cz] = [bx * Math.cos(s) + bz * Math.sin(s), by, -bx * Math.sin(s) + bz * Math.cos(s)];
+  return new THREE.Vector3(cx + px + sx, cy + py + sy, cz + scadNumber(scad, "pivot_z"));
+}
+
+// Bounding box of the OpenSCAD model: the turned plate, the wedge's
+// footprint on the bed and the fences, raised by edge_below
+function scadBounds(scad: string): THREE.Box3 {
+  const L = scadNumber(scad, "total_length");
+  const W = scadNumber(scad, "total_width");
+  const thickness = scadNumber(scad, "thickness");
+  const edgeBelow = scadNumber(scad, "edge_below");
+  const fenceTop = scadNumber(scad, "rise") + thickness + scadNumber(scad, "edge_height");
+  const box = new THREE.Box3();
+  for (const x of [0, L]) {
+    for (const y of [0, W]) {
+      for (const z of [0, thickness]) box.expandByPoint(tilted(scad, [x, y, z]));
+    }
+  }
+  if (scadRows(scad, "wedge").length > 0) {
+    box.expandByPoint(new THREE.Vector3(0, 0, 0)).expandByPoint(new THREE.Vector3(L, W, 0));
+  }
+  for (const [x, y, length, width] of scadRows(scad, "blocks")) {
+    box.expandByPoint(new THREE.Vector3(x, y, -edgeBelow)).expandByPoint(new THREE.Vector3(x + length, y + width, fenceTop));
+  }
+  return box.translate(new THREE.Vector3(0, 0, edgeBelow));
+}
+
+describe("buildPreviewGeometry", () => {
+  for (const [name, values] of Object.entries(CASES)) {
+    describe(name, () => {
+      const params = mortiseTemplateSchema.parse(values);
+      const scad = generateOpenSCADContent(params);
+      const geometry = buildPreviewGeometry(computeTemplateLayout(params));
+      const mesh = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ side: THREE.DoubleSide }));
+
+      it("has the OpenSCAD model's bounding box", () => {
+        geometry.computeBoundingBox();
+        const preview = geometry.boundingBox!;
+        const expected = scadBounds(scad);
+        for (const axis of ["x", "y", "z"] as const) {
+          expect(preview.min[axis]).toBeCloseTo(expected.min[axis], 2);
+          expect(preview.max[axis]).toBeCloseTo(expected.max[axis], 2);
+        }
+      });
+
+      it("cuts the OpenSCAD cutouts clear through along the router's axis", () => {
+        const length = scadNumber(scad, "cutout_length");
+        const width = scadNumber(scad, "cutout_width");
+        const thickness = scadNumber(scad, "thickness");
+        const edgeBelow = scadNumber(scad, "edge_below");
+        const origin = tilted(scad, [0, 0, 0]);
+        const axis = tilted(scad, [0, 0, 1]).sub(origin).normalize();
+
+        // Does a ray down the router's axis from just above this point on the
+        // plate's top face, relative to the cutout's center, hit anything?
+        const blocked = (cutout: number[], along: number, across: number) => {
+          const [x, y, angle] = cutout;
+          const a = radians(angle);
+          const point = tilted(scad, [
+            x + length / 2 + along * Math.cos(a) - across * Math.sin(a),
+            y + width / 2 + along * Math.sin(a) + across * Math.cos(a),
+            thickness,
+          ]).add(new THREE.Vector3(0, 0, edgeBelow));
+          const raycaster = new THREE.Raycaster(point.addScaledVector(axis, 0.5), axis.clone().negate());
+          return raycaster.intersectObject(mesh).length > 0;
+        };
+
+        const cutouts = scadRows(scad, "cutouts");
+        expect(cutouts.length).toBe(params.mortise_count);
+        for (const cutout of cutouts) {
+          expect(blocked(cutout, 0, 0)).toBe(false);
+          for (const side of [-1, 1]) {
+            expect(blocked(cutout, side * (length / 2 - 0.2), 0)).toBe(false);
+            expect(blocked(cutout, side * (length / 2 + 0.2), 0)).toBe(true);
+            expect(blocked(cutout, 0, side * (width / 2 - 0.2))).toBe(false);
+            expect(blocked(cutout, 0, side * (width / 2 + 0.2))).toBe(true);
+          }
+        }
+      });
+    });
+  }
+});
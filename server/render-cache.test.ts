@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { mortiseTemplateSchema } from "@shared/schema";
+import { GENERATOR_VERSION, RenderCache, hashParameters } from "./render-cache";
+
+const params = mortiseTemplateSchema.parse({
+  unit_system: "imperial",
+  bushing_OD: { value: 0.3125, unit: "in" },
+  bit_diameter: { value: 0.25, unit: "in" },
+  mortise_length: { value: 1.75, unit: "in" },
+  mortise_width: { value: 0.375, unit: "in" },
+  edge_distance: { value: 0.25, unit: "in" },
+  edge_position: "right",
+  extension_length: { value: 3, unit: "in" },
+  extension_width: { value: 3, unit: "in" },
+  template_thickness: { value: 0.25, unit: "in" },
+});
+
+describe("hashParameters", () => {
+  it("gives logically equal parameters the same key", () => {
+    const reordered = Object.fromEntries(Object.entries(params).reverse()) as typeof params;
+    const noisy = { ...params, bushing_OD: { unit: "in" as const, value: 0.31250000000000006 } };
+    const key = hashParameters(params, "openscad");
+    expect(hashParameters(reordered, "openscad")).toBe(key);
+    expect(hashParameters(noisy, "openscad")).toBe(key);
+    expect(key).toMatch(/^[0-9a-f]{24}$/);
+  });
+
+  it("separates different parameters, renderers and generator versions", () => {
+    const key = hashParameters(params, "openscad");
+    expect(hashParameters({ ...params, mortise_count: 2 }, "openscad")).not.toBe(key);
+    expect(hashParameters(params, "fake")).not.toBe(key);
+    expect(hashParameters(params, "openscad", GENERATOR_VERSION + 1)).not.toBe(key);
+    expect(hashParameters(params, "openscad", GENERATOR_VERSION)).toBe(key);
+  });
+});
+
+describe("RenderCache", () => {
+  let dir: string;
+  let now = 1_000_000;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "mortise-cache-"));
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(now);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const cache = (options: Partial<ConstructorParameters<typeof RenderCache>[1]> = {}) =>
+    new RenderCache(dir, { maxEntries: 10, maxBytes: 1024, maxAgeMs: 60_000, ...options });
+
+  // Write a rendered file of the given size and move it into the cache
+  async function render(target: RenderCache, key: string, bytes = 10, ext = "stl") {
+    const file = path.join(dir, `render_${key}.${ext}`);
+    await fs.writeFile(file, "x".repeat(bytes));
+    vi.setSystemTime(now += 1000);
+    return target.put(key, file, ext);
+  }
+
+  it("serves a render by key and extension", async () => {
+    const target = cache();
+    const key = hashParameters(params, "fake");
+    const filePath = await render(target, key);
+    expect(filePath).toBe(path.join(dir, `mortise_${key}.stl`));
+    expect(await target.get(key)).toBe(filePath);
+    expect(await target.get(key, "3mf")).toBeNull();
+  });
+
+  it("misses renders from another generator version", async () => {
+    const target = cache();
+    await render(target, hashParameters(params, "fake", GENERATOR_VERSION - 1));
+    expect(await target.get(hashParameters(params, "fake"))).toBeNull();
+  });
+
+  it("evicts the least recently used renders past the size limit", async () => {
+    const target = cache({ maxBytes: 25 });
+    const [a, b, c] = ["a", "b", "c"].map(name => name.repeat(24));
+    const first = await render(target, a);
+    await render(target, b);
+    // Using the first render makes the second the least recently used
+    vi.setSystemTime(now += 1000);
+    expect(await target.get(a)).toBe(first);
+    await render(target, c);
+
+    expect(await target.get(b)).toBeNull();
+    expect(await target.get(a)).toBe(first);
+    expect(await target.get(c)).not.toBeNull();
+    expect((await fs.readdir(dir)).sort()).toEqual([`mortise_${a}.stl`, `mortise_${c}.stl`]);
+  });
+
+  it("evicts past the entry limit and drops expired renders", async () => {
+    const target = cache({ maxEntries: 2 });
+    const [a, b, c] = ["a", "b", "c"].map(name => name.repeat(24));
+    await render(target, a);
+    await render(target, b);
+    await render(target, c);
+    expect(await target.get(a)).toBeNull();
+    expect(await target.get(b)).not.toBeNull();
+
+    vi.setSystemTime(now += 120_000);
+    expect(await target.get(c)).toBeNull();
+  });
+
+  it("picks up renders left on disk by an earlier process", async () => {
+    const key = "d".repeat(24);
+    await render(cache(), key);
+    expect(await cache().get(key)).toBe(path.join(dir, `mortise_${key}.stl`));
+  });
+});
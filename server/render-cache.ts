@@ -0,0 +1,161 @@
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { type MortiseTemplate } from "@shared/schema";
+
+// Bump whenever generateOpenSCADContent changes its output, so templates
+// rendered by an older generator are never served from the cache.
+export const GENERATOR_VERSION = 14;
+
+interface CacheEntry {
+  filePath: string;
+  size: number;
+  createdAt: number;
+  lastUsed: number;
+}
+
+export interface RenderCacheOptions {
+  maxEntries: number;
+  maxBytes: number;
+  maxAgeMs: number;
+}
+
+// Sort object keys and round numbers so that equivalent parameter sets
+// (e.g. 0.3125 vs 0.31250000000000006 after a mm round-trip) hash the same.
+function canonicalize(value: unknown): unknown {
+  if (typeof value === "number") {
+    return Number(value.toFixed(6));
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === "object") {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((acc, key) => {
+        acc[key] = canonicalize((value as Record<string, unknown>)[key]);
+        return acc;
+      }, {});
+  }
+  return value;
+}
+
+// The renderer name is part of the key so placeholder output from the fake
+// renderer is never served in place of a real OpenSCAD render.
+export function hashParameters(params: MortiseTemplate, rendererName: string, generator = GENERATOR_VERSION): string {
+  const canonical = JSON.stringify(canonicalize({ generator, renderer: rendererName, params }));
+  return createHash("sha256").update(canonical).digest("hex").slice(0, 24);
+}
+
+export class RenderCache {
+  private entries = new Map<string, CacheEntry>();
+  private loaded: Promise<void> | null = null;
+
+  constructor(private dir: string, private options: RenderCacheOptions) {}
+
+  private fileName(key: string, ext: string): string {
+    return `mortise_${key}.${ext}`;
+  }
+
+  private entryKey(key: string, ext: string): string {
+    return `${key}.${ext}`;
+  }
+
+  // Rebuild the index from disk once, so cached renders survive a restart
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        await fs.mkdir(this.dir, { recursive: true });
+        const pattern = /^mortise_([0-9a-f]{24})\.(\w+)$/;
+        for (const name of await fs.readdir(this.dir)) {
+          const match = name.match(pattern);
+          if (!match) continue;
+          const filePath = path.join(this.dir, name);
+          const stats = await fs.stat(filePath).catch(() => null);
+          if (!stats) continue;
+          this.entries.set(this.entryKey(match[1], match[2]), {
+            filePath,
+            size: stats.size,
+            createdAt: stats.mtimeMs,
+            lastUsed: stats.atimeMs,
+          });
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  async get(key: string, ext = "stl"): Promise<string | null> {
+    await this.load();
+    const entry = this.entries.get(this.entryKey(key, ext));
+    if (!entry) return null;
+
+    if (Date.now() - entry.createdAt > this.options.maxAgeMs) {
+      await this.remove(this.entryKey(key, ext));
+      return null;
+    }
+
+    const exists = await fs.access(entry.filePath).then(() => true).catch(() => false);
+    if (!exists) {
+      this.entries.delete(this.entryKey(key, ext));
+      return null;
+    }
+
+    entry.lastUsed = Date.now();
+    return entry.filePath;
+  }
+
+  // Move a freshly rendered file into the cache and return its cached path
+  async put(key: string, sourceFile: string, ext = "stl"): Promise<string> {
+    await this.load();
+    const filePath = path.join(this.dir, this.fileName(key, ext));
+    if (path.resolve(sourceFile) !== path.resolve(filePath)) {
+      await fs.rename(sourceFile, filePath);
+    }
+    const stats = await fs.stat(filePath);
+    const now = Date.now();
+    this.entries.set(this.entryKey(key, ext), {
+      filePath,
+      size: stats.size,
+      createdAt: now,
+      lastUsed: now,
+    });
+    await this.evict();
+    return filePath;
+  }
+
+  private async remove(entryKey: string): Promise<void> {
+    const entry = this.entries.get(entryKey);
+    if (!entry) return;
+    this.entries.delete(entryKey);
+    await fs.unlink(entry.filePath).catch(() => undefined);
+  }
+
+  // Drop expired entries, then the least recently used ones until the cache
+  // is back within its entry and byte limits.
+  async evict(): Promise<void> {
+    const now = Date.now();
+    for (const [entryKey, entry] of Array.from(this.entries)) {
+      if (now - entry.createdAt > this.options.maxAgeMs) {
+        await this.remove(entryKey);
+      }
+    }
+
+    const byLastUse = Array.from(this.entries).sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+    let totalBytes = byLastUse.reduce((sum, [, entry]) => sum + entry.size, 0);
+    while (
+      byLastUse.length > 0 &&
+      (byLastUse.length > this.options.maxEntries || totalBytes > this.options.maxBytes)
+    ) {
+      const [entryKey, entry] = byLastUse.shift()!;
+      totalBytes -= entry.size;
+      await this.remove(entryKey);
+    }
+  }
+}
+
+export const renderCache = new RenderCache(path.join(process.cwd(), "temp"), {
+  maxEntries: Number(process.env.RENDER_CACHE_MAX_ENTRIES) || 200,
+  maxBytes: (Number(process.env.RENDER_CACHE_MAX_MB) || 500) * 1024 * 1024,
+  maxAgeMs: (Number(process.env.RENDER_CACHE_MAX_AGE_HOURS) || 24 * 7) * 60 * 60 * 1000,
+});
@@ -0,0 +1,218 @@
+import { spawn } from "child_process";
+import fs from "fs/promises";
+import { type RenderDiagnostic } from "@shared/schema";
+
+export interface RenderRequest {
+  scadFile: string;
+  outputFile: string;
+  // Top-level variable overrides, passed as -D name=value
+  defines?: Record<string, string | number>;
+  timeoutMs?: number;
+  onLog?: (line: string) => void;
+}
+
+export interface RenderResult {
+  diagnostics: RenderDiagnostic[];
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+}
+
+export interface Renderer {
+  readonly name: string;
+  render(request: RenderRequest): Promise<RenderResult>;
+}
+
+export type RenderFailureReason = "spawn" | "exit" | "timeout" | "memory";
+
+export class RenderError extends Error {
+  constructor(
+    message: string,
+    public reason: RenderFailureReason,
+    public diagnostics: RenderDiagnostic[] = [],
+  ) {
+    super(message);
+    this.name = "RenderError";
+  }
+}
+
+// Turn OpenSCAD's stderr ("WARNING: ... line 12", "ERROR: Parser error ...")
+// into structured diagnostics
+export function parseDiagnostics(stderr: string): RenderDiagnostic[] {
+  const diagnostics: RenderDiagnostic[] = [];
+  for (const raw of stderr.split(/\r?\n/)) {
+    const match = raw.trim().match(/^(ERROR|WARNING|DEPRECATED|TRACE):\s*(.*)$/);
+    if (!match) continue;
+    const [, kind, message] = match;
+    const line = message.match(/line (\d+)/);
+    diagnostics.push({
+      level: kind === "ERROR" ? "error" : kind === "TRACE" ? "info" : "warning",
+      message,
+      ...(line ? { line: Number(line[1]) } : {}),
+    });
+  }
+  return diagnostics;
+}
+
+// Resident memory of a running process in bytes, or null where /proc is unavailable
+async function residentBytes(pid: number): Promise<number | null> {
+  try {
+    const status = await fs.readFile(`/proc/${pid}/status`, "utf8");
+    const match = status.match(/^VmRSS:\s+(\d+)\s+kB/m);
+    return match ? Number(match[1]) * 1024 : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface OpenSCADRendererOptions {
+  binary: string;
+  timeoutMs: number;
+  maxMemoryBytes: number;
+}
+
+export class OpenSCADRenderer implements Renderer {
+  readonly name = "openscad";
+
+  constructor(private options: OpenSCADRendererOptions) {}
+
+  render({ scadFile, outputFile, defines = {}, timeoutMs, onLog }: RenderRequest): Promise<RenderResult> {
+    const started = Date.now();
+    const limitMs = timeoutMs ?? this.options.timeoutMs;
+    const defineArgs = Object.entries(defines).flatMap(([name, value]) =>
+      ["-D", `${name}=${typeof value === "string" ? JSON.stringify(value) : value}`]);
+
+    return new Promise((resolve, reject) => {
+      // Arguments are passed straight to the binary; no shell is involved
+      const child = spawn(this.options.binary, [...defineArgs, "-o", outputFile, scadFile], {
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+
+      let stdout = "";
+      let stderr = "";
+      let pending = "";
+      let failure: RenderFailureReason | null = null;
+
+      const kill = (reason: RenderFailureReason) => {
+        if (failure) return;
+        failure = reason;
+        child.kill("SIGKILL");
+      };
+
+      const timer = limitMs > 0 ? setTimeout(() => kill("timeout"), limitMs) : null;
+      const memoryWatch = this.options.maxMemoryBytes > 0 && child.pid !== undefined
+        ? setInterval(async () => {
+            const rss = await residentBytes(child.pid!);
+            if (rss !== null && rss > this.options.maxMemoryBytes) kill("memory");
+          }, 250)
+        : null;
+
+      const cleanup = () => {
+        if (timer) clearTimeout(timer);
+        if (memoryWatch) clearInterval(memoryWatch);
+      };
+
+      child.stdout.on("data", (chunk: Buffer) => {
+        stdout += chunk.toString();
+      });
+      // OpenSCAD reports its progress on stderr; forward it line by line
+      child.stderr.on("data", (chunk: Buffer) => {
+        stderr += chunk.toString();
+        if (!onLog) return;
+        const lines = (pending + chunk.toString()).split(/\r?\n/);
+        pending = lines.pop() ?? "";
+        lines.filter(line => line.trim()).forEach(line => onLog(line));
+      });
+
+      child.on("error", (error) => {
+        cleanup();
+        reject(new RenderError(`Could not start OpenSCAD (${this.options.binary}): ${error.message}`, "spawn"));
+      });
+
+      child.on("close", (code) => {
+        cleanup();
+        if (onLog && pending.trim()) onLog(pending);
+        const diagnostics = parseDiagnostics(stderr);
+
+        if (failure === "timeout") {
+          return reject(new RenderError(`Render timed out after ${Math.round(limitMs / 1000)}s`, "timeout", diagnostics));
+        }
+        if (failure === "memory") {
+          const limitMb = Math.round(this.options.maxMemoryBytes / 1024 / 1024);
+          return reject(new RenderError(`Render exceeded the ${limitMb} MB memory limit`, "memory", diagnostics));
+        }
+        if (code !== 0) {
+          const firstError = diagnostics.find(d => d.level === "error");
+          return reject(new RenderError(
+            firstError ? `OpenSCAD failed: ${firstError.message}` : `OpenSCAD exited with code ${code}`,
+            "exit",
+            diagnostics,
+          ));
+        }
+
+        resolve({ diagnostics, stdout, stderr, durationMs: Date.now() - started });
+      });
+    });
+  }
+}
+
+// Stand-in for OpenSCAD on machines that don't have it (tests, CI). It emits
+// an ASCII STL box sized from the plate variables in the SCAD file, so the
+// same input always produces the same output.
+export class FakeRenderer implements Renderer {
+  readonly name = "fake";
+
+  async render({ scadFile, outputFile, defines = {}, onLog }: RenderRequest): Promise<RenderResult> {
+    const started = Date.now();
+    const scad = await fs.readFile(scadFile, "utf8");
+    const variable = (name: string, fallback: number) => {
+      const match = scad.match(new RegExp(`^${name}\\s*=\\s*([-\\d.e]+);`, "m"));
+      return match ? Number(match[1]) : fallback;
+    };
+
+    const stl = defines.part === "label"
+      ? boxSTL("fake_label", 30, 3, 0.5, [variable("label_x", 0), variable("label_y", 0), variable("thickness", 6.35) - 0.5])
+      : boxSTL("fake_mortise_template", variable("total_length", 100), variable("overall_width", 50), variable("thickness", 6.35));
+    await fs.writeFile(outputFile, stl);
+
+    const stderr = "Parsing design (fake renderer)\nTotal rendering time: 0:00:00.000\n";
+    stderr.trim().split("\n").forEach(line => onLog?.(line));
+    return { diagnostics: [], stdout: "", stderr, durationMs: Date.now() - started };
+  }
+}
+
+function boxSTL(name: string, x: number, y: number, z: number, origin = [0, 0, 0]): string {
+  const v = [
+    [0, 0, 0], [x, 0, 0], [x, y, 0], [0, y, 0],
+    [0, 0, z], [x, 0, z], [x, y, z], [0, y, z],
+  ].map(corner => corner.map((value, axis) => value + origin[axis]));
+  const faces: Array<[number[], number[]]> = [
+    [[0, 0, -1], [0, 2, 1]], [[0, 0, -1], [0, 3, 2]],
+    [[0, 0, 1], [4, 5, 6]], [[0, 0, 1], [4, 6, 7]],
+    [[0, -1, 0], [0, 1, 5]], [[0, -1, 0], [0, 5, 4]],
+    [[1, 0, 0], [1, 2, 6]], [[1, 0, 0], [1, 6, 5]],
+    [[0, 1, 0], [2, 3, 7]], [[0, 1, 0], [2, 7, 6]],
+    [[-1, 0, 0], [3, 0, 4]], [[-1, 0, 0], [3, 4, 7]],
+  ];
+  const facets = faces.map(([normal, corners]) => [
+    `  facet normal ${normal.join(" ")}`,
+    "    outer loop",
+    ...corners.map(i => `      vertex ${v[i].join(" ")}`),
+    "    endloop",
+    "  endfacet",
+  ].join("\n"));
+  return `solid ${name}\n${facets.join("\n")}\nendsolid ${name}\n`;
+}
+
+export function createRenderer(): Renderer {
+  if (process.env.RENDERER === "fake") {
+    return new FakeRenderer();
+  }
+  return new OpenSCADRenderer({
+    binary: process.env.OPENSCAD_PATH || "openscad",
+    timeoutMs: (Number(process.env.RENDER_TIMEOUT_SECONDS) || 120) * 1000,
+    maxMemoryBytes: (Number(process.env.RENDER_MEMORY_LIMIT_MB) || 2048) * 1024 * 1024,
+  });
+}
+
+export const renderer = createRenderer();
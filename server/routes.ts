@@ -1,23 +1,145 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { mortiseTemplateSchema } from "@shared/schema";
+import { storage, InvalidTemplateError } from "./storage";
+import { renderJobs, QueueFullError } from "./jobs";
+import { RenderError } from "./renderer";
+import { validatedTemplateSchema, generateRequestSchema, savedTemplateSchema, renameTemplateSchema, type MortiseTemplate, type RenderJobSnapshot } from "@shared/schema";
 import * as path from 'path';
 import * as fs from 'fs/promises';
+import { ZodError } from "zod";
+import { formatMeasurement } from "@shared/format";
+import { resolveMortise } from "@shared/geometry";
+import { templateIssues } from "@shared/validation";
+import { upgradeLegacyParams } from "@shared/legacy";
+import { analyzeManufacturability, printerProfile } from "./manufacturability";
+import { fromZodError } from "zod-validation-error";
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.stl': 'application/octet-stream',
+  '.3mf': 'model/3mf',
+  '.dxf': 'application/dxf',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+};
+
+const MODE_TITLES: Record<MortiseTemplate["template_mode"], string> = {
+  mortise: "Mortise",
+  loose_tenon: "Loose tenon",
+  hinge: "Hinge mortise",
+  through: "Through mortise",
+};
+
+function parseTemplateId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
 
 export function registerRoutes(app: Express): Server {
   app.post("/api/generate", async (req, res) => {
     try {
-      const params = mortiseTemplateSchema.parse(req.body);
-      const { filePath, content } = await storage.generateSTLFile(params);
+      const { format, paper_size, template_name, color_label, ...params } = generateRequestSchema.parse(upgradeLegacyParams(req.body));
+      if (format === "3mf") {
+        const size = resolveMortise(params);
+        const title = template_name ??
+          `${MODE_TITLES[params.template_mode]} ${formatMeasurement(size.length, params)} x ${formatMeasurement(size.width, params)}`;
+        const { filePath } = await renderJobs.schedule(options =>
+          storage.generate3MFFile(params, { ...options, title, colorLabel: color_label }));
+        return res.json({
+          previewUrl: `/api/preview/${path.basename(filePath)}`,
+          report: analyzeManufacturability(params, printerProfile),
+        });
+      }
+      if (format === "pdf") {
+        const paper = paper_size ?? (params.unit_system === "metric" ? "a4" : "letter");
+        const { filePath } = await storage.generatePaperTemplateFile(params, paper);
+        return res.json({ previewUrl: `/api/preview/${path.basename(filePath)}` });
+      }
+      if (format !== "stl") {
+        const { filePath } = await storage.generateOutlineFile(params, format);
+        return res.json({ previewUrl: `/api/preview/${path.basename(filePath)}` });
+      }
+
+      const { filePath, cached } = await renderJobs.schedule(options => storage.generateSTLFile(params, options));
 
-      res.json({ previewUrl: `/api/preview/${path.basename(filePath)}` });
+      res.json({
+        previewUrl: `/api/preview/${path.basename(filePath)}`,
+        cached,
+        report: analyzeManufacturability(params, printerProfile),
+      });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message, issues: templateIssues(error) });
+      }
+      if (error instanceof QueueFullError) {
+        return res.status(503).json({ error: error.message });
+      }
+      if (error instanceof RenderError) {
+        return res.status(error.reason === "timeout" ? 504 : 500).json({
+          error: error.message,
+          diagnostics: error.diagnostics,
+        });
+      }
       console.error('Error:', error);
       res.status(400).json({ error: "Failed to generate STL file" });
     }
   });
 
+  // Background render jobs
+  app.post("/api/jobs", (req, res) => {
+    try {
+      const params = validatedTemplateSchema.parse(upgradeLegacyParams(req.body));
+      res.status(202).json(renderJobs.enqueue(params));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message, issues: templateIssues(error) });
+      }
+      if (error instanceof QueueFullError) {
+        return res.status(503).json({ error: error.message });
+      }
+      console.error('Error:', error);
+      res.status(500).json({ error: "Failed to queue render" });
+    }
+  });
+
+  app.get("/api/jobs/:id", (req, res) => {
+    const job = renderJobs.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    res.json(job);
+  });
+
+  app.get("/api/jobs/:id/events", (req, res) => {
+    const job = renderJobs.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+
+    const send = (snapshot: RenderJobSnapshot) => {
+      res.write(`data: ${JSON.stringify(snapshot)}\n\n`);
+      if (snapshot.status === "done" || snapshot.status === "failed") {
+        close();
+      }
+    };
+    const onUpdate = (snapshot: RenderJobSnapshot) => {
+      if (snapshot.id === job.id) send(snapshot);
+    };
+    const close = () => {
+      renderJobs.off("update", onUpdate);
+      res.end();
+    };
+
+    renderJobs.on("update", onUpdate);
+    req.on("close", () => renderJobs.off("update", onUpdate));
+    send(job);
+  });
+
   app.get("/api/preview/:filename", async (req, res) => {
     const filePath = path.join(process.cwd(), 'temp', req.params.filename);
     try {
@@ -26,8 +148,8 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ error: "File not found" });
       }
       
-      // Set proper content type for STL files
-      res.setHeader('Content-Type', 'application/octet-stream');
+      // Set proper content type for the exported format
+      res.setHeader('Content-Type', CONTENT_TYPES[path.extname(filePath)] ?? 'application/octet-stream');
       res.setHeader('Content-Disposition', `inline; filename="${req.params.filename}"`);
       res.sendFile(filePath);
     } catch (error) {
@@ -43,18 +165,124 @@ export function registerRoutes(app: Express): Server {
       if (!exists) {
         return res.status(404).json({ error: "File not found" });
       }
-      res.download(filePath, "mortise_template.stl", async (err) => {
-        if (!err) {
-          // Delete the file after successful download
-          await fs.unlink(filePath).catch(console.error);
-        }
-      });
+      // Rendered files belong to the render cache, which evicts them by size
+      // and age, so they are kept after download for repeat requests.
+      res.download(filePath, `mortise_template${path.extname(filePath)}`);
     } catch (error) {
       console.error('Error:', error);
       res.status(500).json({ error: "Failed to download file" });
     }
   });
 
+  // Saved template library
+  app.get("/api/templates", async (_req, res) => {
+    try {
+      res.json(await storage.getTemplates());
+    } catch (error) {
+      console.error('Error:', error);
+      res.status(500).json({ error: "Failed to load saved templates" });
+    }
+  });
+
+  app.post("/api/templates", async (req, res) => {
+    try {
+      const { name, ...params } = savedTemplateSchema.parse(upgradeLegacyParams(req.body));
+      const saved = await storage.saveTemplate(name, params);
+      res.status(201).json(saved);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      console.error('Error:', error);
+      res.status(500).json({ error: "Failed to save template" });
+    }
+  });
+
+  app.get("/api/templates/:id", async (req, res) => {
+    const id = parseTemplateId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: "Invalid template id" });
+    }
+    try {
+      const template = await storage.getTemplate(id);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      if (error instanceof InvalidTemplateError) {
+        return res.status(422).json({ error: error.message });
+      }
+      console.error('Error:', error);
+      res.status(500).json({ error: "Failed to load template" });
+    }
+  });
+
+  app.put("/api/templates/:id", async (req, res) => {
+    const id = parseTemplateId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: "Invalid template id" });
+    }
+    try {
+      const { name, ...params } = savedTemplateSchema.parse(upgradeLegacyParams(req.body));
+      const updated = await storage.updateTemplate(id, name, params);
+      if (!updated) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      if (error instanceof InvalidTemplateError) {
+        return res.status(422).json({ error: error.message });
+      }
+      console.error('Error:', error);
+      res.status(500).json({ error: "Failed to update template" });
+    }
+  });
+
+  app.patch("/api/templates/:id", async (req, res) => {
+    const id = parseTemplateId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: "Invalid template id" });
+    }
+    try {
+      const { name } = renameTemplateSchema.parse(req.body);
+      const renamed = await storage.renameTemplate(id, name);
+      if (!renamed) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      res.json(renamed);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: fromZodError(error).message });
+      }
+      if (error instanceof InvalidTemplateError) {
+        return res.status(422).json({ error: error.message });
+      }
+      console.error('Error:', error);
+      res.status(500).json({ error: "Failed to rename template" });
+    }
+  });
+
+  app.delete("/api/templates/:id", async (req, res) => {
+    const id = parseTemplateId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: "Invalid template id" });
+    }
+    try {
+      const deleted = await storage.deleteTemplate(id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error:', error);
+      res.status(500).json({ error: "Failed to delete template" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,313 @@
+import { type MortiseTemplate } from "@shared/schema";
+import { computeTemplateLayout, FENCE_BOLT_CLEARANCE, GROOVE_DEPTH, PAIR_GAP } from "@shared/geometry";
+import { PAD_DIAMETER, PAD_POCKET_DEPTH, SCREW_CLEARANCE, SCREW_HEAD } from "@shared/mounting";
+
+// Quote a string for an OpenSCAD string literal
+function scadString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+// Which solid to emit. "template" is the finished plate with its label;
+// "label" is just the text, the inlay that fills an engraving or the raised
+// lettering of an embossed label, rendered separately so it can be printed in
+// a contrasting colour on top of "base", the plate without that text.
+export type ScadPart = "template" | "base" | "label";
+
+// Whether the "label" part has anything in it. With no label lines and no
+// reference mark it is empty, and OpenSCAD won't export an empty model.
+export function hasLabelPart(params: MortiseTemplate): boolean {
+  const { label, copies, reference_mark } = computeTemplateLayout(params);
+  return reference_mark !== null ||
+    (label.size > 0 && copies.some(copy => copy.lines.some(line => line.trim() !== "")));
+}
+
+export function generateOpenSCADContent(params: MortiseTemplate): string {
+  const layout = computeTemplateLayout(params);
+  const { cutouts, label, reference_mark, marks, mounting } = layout;
+  const [cutout] = cutouts;
+
+  // One [y offset, label lines, underside label lines] entry per plate in the print
+  const copies = layout.copies
+    .map(copy => `    [${copy.dy}, [${copy.lines.map(scadString).join(", ")}], [${copy.underside_lines.map(scadString).join(", ")}]]`)
+    .join(",\n");
+  const underside = layout.underside_label ?? { x: 0, y: 0, size: 0, lineSpacing: 0 };
+  const referenceMark = reference_mark
+    ? `[${reference_mark.points.map(([x, y]) => `[${x}, ${y}]`).join(", ")}]`
+    : "[]";
+  const point = ([x, y]: [number, number]) => `[${x}, ${y}]`;
+  const grooves = marks.grooves.map(g => `[${point(g.from)}, ${point(g.to)}, ${g.z}]`).join(", ");
+  const notches = marks.notches.map(points => `[${points.map(point).join(", ")}]`).join(", ");
+  const rulerTicks = (marks.ruler?.ticks ?? []).map(t => `[${t.x}, ${t.y}, ${t.length}, ${t.width}]`).join(", ");
+  const screwHoles = mounting.screw_holes.map(hole => `[${hole.x}, ${hole.y}]`).join(", ");
+  const clampSlots = mounting.clamp_slots.map(slot => `[${slot.x}, ${slot.y}, ${slot.length}, ${slot.width}]`).join(", ");
+  const padPockets = mounting.pad_pockets.map(pad => `[${pad.x}, ${pad.y}]`).join(", ");
+  const rect = (r: { x: number; y: number; length: number; width: number }) => `[${r.x}, ${r.y}, ${r.length}, ${r.width}]`;
+  const fenceBar = layout.fence_bar
+    ? `[${layout.fence_bar.length}, ${layout.fence_bar.width}, ${layout.fence_bar.height}, [${layout.fence_bar.holes.join(", ")}]]`
+    : "[]";
+  const rulerNumbers = (marks.ruler?.numbers ?? []).map(n => `[${n.x}, ${n.y}, ${scadString(n.text)}]`).join(", ");
+  const angled = layout.angled ?? { tilt: 0, splay: 0, pivot: [0, 0], pivot_z: 0, shift: [0, 0], corners: [], rise: 0, below: 0 };
+  // The wedge's underside, the flat plate's footprint so it meets the
+  // fences, then its top against the turned plate
+  const footprint = [[0, 0], [layout.total_length, 0], [layout.total_length, layout.total_width], [0, layout.total_width]];
+  const wedge = angled.corners.length > 0
+    ? `[${[...footprint.map(([x, y]) => `[${x}, ${y}, 0]`), ...angled.corners.map(([x, y, z]) => `[${x}, ${y}, ${z}]`)].join(", ")}]`
+    : "[]";
+
+  return `
+// Dimensions in mm
+total_length = ${layout.total_length};
+total_width = ${layout.total_width};
+overall_width = ${layout.overall_width};
+thickness = ${layout.thickness};
+edge_height = ${layout.edge_height};
+edge_thickness = ${layout.edge_thickness};
+cutout_length = ${cutout.length};
+cutout_width = ${cutout.width};
+// Corner of each cutout and its skew in degrees, one per mortise
+cutouts = [${cutouts.map(c => `[${c.x}, ${c.y}, ${c.angle ?? 0}]`).join(", ")}];
+// Fences and end stop [x, y, length, width], standing edge_height above the
+// plate, and the slots an adjustable fence bar bolts through
+blocks = [${layout.blocks.map(rect).join(", ")}];
+// How far the fences reach below the plate, for a template used both ways up
+edge_below = ${layout.edge_below};
+fence_slots = [${layout.fence_slots.map(rect).join(", ")}];
+// Adjustable fence bar [length, width, height, bolt hole xs], printed beside the plates
+fence_bar = ${fenceBar};
+fence_bolt = ${FENCE_BOLT_CLEARANCE};
+
+// Angled mortises: the plate is turned by tilt about x and splay about y
+// around pivot on its underside, lifted to pivot_z and moved by shift, and
+// stands on a wedge. rise is the wedge's highest point; through cuts reach
+// below the plate to clear it.
+tilt = ${angled.tilt};
+splay = ${angled.splay};
+pivot = [${angled.pivot.join(", ")}];
+pivot_z = ${angled.pivot_z};
+shift = [${angled.shift.join(", ")}];
+rise = ${angled.rise};
+below = ${angled.below};
+wedge = ${wedge};
+fence_top = rise + thickness + edge_height;
+pair_gap = ${PAIR_GAP};
+label_x = ${label.x};
+label_y = ${label.y};
+label_size = ${label.size};
+label_spacing = ${label.lineSpacing};
+label_font = ${scadString(label.font)};
+// Raised lettering instead of an engraving
+emboss = ${label.style === "emboss"};
+// Engraved underneath, placed as seen with the plate turned over
+underside_x = ${underside.x};
+underside_y = ${underside.y};
+underside_size = ${underside.size};
+underside_spacing = ${underside.lineSpacing};
+corner_radius = ${cutout.radius};
+engrave_depth = ${layout.engrave_depth};
+reference_mark = ${referenceMark};
+
+// Registration marks: [[x1, y1], [x2, y2], z] per V-groove, V-notch
+// outlines, and ruler ticks [x, y, length, width] and numbers on the fence
+groove_depth = ${GROOVE_DEPTH};
+grooves = [${grooves}];
+notches = [${notches}];
+ruler_ticks = [${rulerTicks}];
+ruler_numbers = [${rulerNumbers}];
+ruler_size = ${marks.ruler?.size ?? 0};
+
+// Mounting: countersunk screw hole centers, clamp slots [x, y, length,
+// width] and rubber pad pocket centers on the underside
+screw_holes = [${screwHoles}];
+screw_clearance = ${SCREW_CLEARANCE};
+screw_head = ${SCREW_HEAD};
+clamp_slots = [${clampSlots}];
+pad_pockets = [${padPockets}];
+pad_diameter = ${PAD_DIAMETER};
+pad_depth = ${PAD_POCKET_DEPTH};
+
+copies = [
+${copies}
+];
+
+// Overridden with -D part="label" to render the text inlay on its own
+part = "template";
+
+// Rounded rectangle module
+module rounded_rect(length, width, height, radius) {
+    hull() {
+        translate([radius, radius, 0])
+            cylinder(h=height, r=radius, $fn=50);
+        translate([length - radius, radius, 0])
+            cylinder(h=height, r=radius, $fn=50);
+        translate([radius, width - radius, 0])
+            cylinder(h=height, r=radius, $fn=50);
+        translate([length - radius, width - radius, 0])
+            cylinder(h=height, r=radius, $fn=50);
+    }
+}
+
+// Place children, laid out on the flat plate, on the angled plate
+module tilted() {
+    translate([pivot[0] + shift[0], pivot[1] + shift[1], pivot_z])
+        rotate([tilt, splay, 0])
+            translate([-pivot[0], -pivot[1], 0])
+                children();
+}
+
+// Label text (2D), placed clear of the cutouts and fence
+module label_text(lines) {
+    text_block(lines, label_x, label_y, label_size, label_spacing);
+}
+
+module text_block(lines, x, y, size, spacing) {
+    if (len(lines) > 0 && size > 0)
+        translate([x, y])
+            for (i = [0 : len(lines) - 1])
+                translate([0, -spacing * i])
+                    text(lines[i], size = size, font = label_font, halign = "left");
+}
+
+// Underside label (2D), mirrored so it reads with the plate turned over
+module underside_text(lines) {
+    translate([0, total_width])
+        mirror([0, 1])
+            text_block(lines, underside_x, underside_y, underside_size, underside_spacing);
+}
+
+// Everything engraved into the top face (2D)
+module engraving(lines) {
+    label_text(lines);
+    if (len(reference_mark) > 0)
+        polygon(reference_mark);
+}
+
+// V-groove with its surface edge at height z, 90 degrees across
+module v_groove(from, to, z) {
+    hull()
+        for (p = [from, to])
+            translate([p[0], p[1], z - groove_depth])
+                cylinder(h = groove_depth + 0.1, r1 = 0, r2 = groove_depth + 0.1, $fn = 16);
+}
+
+// Everything cut to help line the template up with the workpiece
+module registration_marks() {
+    for (g = grooves)
+        if (g[2] == thickness) tilted() v_groove(g[0], g[1], g[2]);
+        else v_groove(g[0], g[1], g[2]);
+    for (n = notches)
+        translate([0, 0, -edge_below - 0.1])
+            linear_extrude(height = edge_below + fence_top + 0.2)
+                polygon(n);
+    for (t = ruler_ticks)
+        translate([t[0], t[1], fence_top - engrave_depth])
+            cube([t[2], t[3], engrave_depth + 0.1]);
+    for (n = ruler_numbers)
+        translate([n[0], n[1], fence_top - engrave_depth])
+            linear_extrude(height = engrave_depth + 0.1)
+                text(n[2], size = ruler_size, halign = "center");
+}
+
+// Holes, slots and pockets for fixing the template down
+module mounting() {
+    tilted() {
+        for (h = screw_holes)
+            translate([h[0], h[1], 0]) {
+                translate([0, 0, -below - 0.1])
+                    cylinder(h = below + thickness + 0.2, d = screw_clearance, $fn = 32);
+                // 90 degree countersink, flush with the top face
+                translate([0, 0, thickness - screw_head / 2])
+                    cylinder(h = screw_head / 2 + 0.1, d1 = 0, d2 = screw_head + 0.2, $fn = 32);
+            }
+        for (s = clamp_slots)
+            translate([s[0], s[1], -below - 0.1])
+                rounded_rect(s[2], s[3], below + thickness + 0.2, min(s[2], s[3]) / 2);
+    }
+    // Under the wedge, if there is one
+    for (p = pad_pockets)
+        translate([p[0], p[1], -0.1])
+            cylinder(h = pad_depth + 0.1, d = pad_diameter, $fn = 48);
+}
+
+// Main template; with_label = false leaves off embossed lettering
+module template(lines, underside_lines = [], with_label = true) {
+    difference() {
+        union() {
+            tilted() {
+                // Base plate
+                cube([total_length, total_width, thickness]);
+                if (emboss && with_label)
+                    translate([0, 0, thickness])
+                        linear_extrude(height = engrave_depth)
+                            engraving(lines);
+            }
+            if (len(wedge) > 0)
+                hull() polyhedron(wedge, [[0, 1, 2, 3], [4, 5, 1, 0], [7, 6, 5, 4], [5, 6, 2, 1], [6, 7, 3, 2], [7, 4, 0, 3]]);
+            // Fences and end stop
+            for (b = blocks)
+                translate([b[0], b[1], -edge_below])
+                    cube([b[2], b[3], edge_below + fence_top]);
+        }
+
+        tilted() {
+            // Mortise cutouts, along the router's axis through any wedge, and
+            // through the fence as well where a mortise runs out at the
+            // workpiece face (a hinge mortise with no setback)
+            for (c = cutouts)
+                translate([c[0] + cutout_length / 2, c[1] + cutout_width / 2, -below - edge_below - 0.1])
+                    rotate([0, 0, c[2]])
+                        translate([-cutout_length / 2, -cutout_width / 2, 0])
+                            rounded_rect(cutout_length, cutout_width, below + edge_below + fence_top + 0.2, corner_radius);
+
+            // Slots for the adjustable fence's bolts
+            for (s = fence_slots)
+                translate([s[0], s[1], -0.1])
+                    rounded_rect(s[2], s[3], thickness + 0.2, min(s[2], s[3]) / 2);
+
+            // Text engravings
+            if (!emboss)
+                translate([0, 0, thickness - engrave_depth])
+                    linear_extrude(height = engrave_depth + 0.5)
+                        engraving(lines);
+        }
+
+        registration_marks();
+        mounting();
+
+        translate([0, 0, -0.1])
+            linear_extrude(height = engrave_depth + 0.1)
+                underside_text(underside_lines);
+    }
+}
+
+// The label on its own: the inlay that exactly fills the engraving, or the
+// raised lettering
+module label_inlay(lines) {
+    tilted()
+        translate([0, 0, emboss ? thickness : thickness - engrave_depth])
+            linear_extrude(height = engrave_depth)
+                engraving(lines);
+}
+
+// The adjustable fence, standing as it is used, with a bolt hole near each end
+module fence_bar_part() {
+    difference() {
+        cube([fence_bar[0], fence_bar[1], fence_bar[2]]);
+        for (x = fence_bar[3])
+            translate([x, fence_bar[1] / 2, -0.1])
+                cylinder(h = fence_bar[2] + 0.2, d = fence_bolt, $fn = 32);
+    }
+}
+
+// Raised so fences reaching below the plate stand on the bed
+for (copy = copies)
+    translate([0, copy[0], edge_below])
+        if (part == "label") label_inlay(copy[1]);
+        else template(copy[1], copy[2], with_label = part != "base");
+
+// One fence bar per plate, beyond the last one
+if (part != "label" && len(fence_bar) > 0)
+    for (i = [0 : len(copies) - 1])
+        translate([0, overall_width + pair_gap + i * (fence_bar[1] + pair_gap), 0])
+            fence_bar_part();
+`;
+}
@@ -0,0 +1,67 @@
+// Minimal STL reader used when repackaging OpenSCAD output (e.g. into 3MF),
+// which needs an indexed mesh rather than STL's loose triangles.
+
+export interface IndexedMesh {
+  vertices: Array<[number, number, number]>;
+  triangles: Array<[number, number, number]>;
+}
+
+function isBinarySTL(buffer: Buffer): boolean {
+  if (buffer.length < 84) return false;
+  const faces = buffer.readUInt32LE(80);
+  return buffer.length === 84 + faces * 50;
+}
+
+function readTriangles(buffer: Buffer): number[][] {
+  const corners: number[][] = [];
+  if (isBinarySTL(buffer)) {
+    const faces = buffer.readUInt32LE(80);
+    for (let face = 0; face < faces; face++) {
+      const offset = 84 + face * 50 + 12; // skip the normal
+      for (let i = 0; i < 3; i++) {
+        const at = offset + i * 12;
+        corners.push([buffer.readFloatLE(at), buffer.readFloatLE(at + 4), buffer.readFloatLE(at + 8)]);
+      }
+    }
+    return corners;
+  }
+
+  const vertexPattern = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/g;
+  const text = buffer.toString("utf8");
+  let match: RegExpExecArray | null;
+  while ((match = vertexPattern.exec(text)) !== null) {
+    corners.push([Number(match[1]), Number(match[2]), Number(match[3])]);
+  }
+  return corners;
+}
+
+export function parseSTL(buffer: Buffer): IndexedMesh {
+  const corners = readTriangles(buffer);
+  const vertices: IndexedMesh["vertices"] = [];
+  const triangles: IndexedMesh["triangles"] = [];
+  const index = new Map<string, number>();
+
+  // Merge coincident corners; STL repeats every shared vertex per triangle
+  const vertexIndex = ([x, y, z]: number[]) => {
+    const key = `${x.toFixed(5)},${y.toFixed(5)},${z.toFixed(5)}`;
+    let i = index.get(key);
+    if (i === undefined) {
+      i = vertices.length;
+      vertices.push([x, y, z]);
+      index.set(key, i);
+    }
+    return i;
+  };
+
+  for (let i = 0; i + 2 < corners.length; i += 3) {
+    const triangle: [number, number, number] = [
+      vertexIndex(corners[i]),
+      vertexIndex(corners[i + 1]),
+      vertexIndex(corners[i + 2]),
+    ];
+    // Drop triangles that collapsed when vertices were merged
+    if (new Set(triangle).size === 3) triangles.push(triangle);
+  }
+
+  return { vertices, triangles };
+}
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { mortiseTemplateSchema, type DBMortiseTemplate } from "@shared/schema";
+
+const rows = vi.hoisted(() => [] as DBMortiseTemplate[]);
+
+// Every query sees the rows in `rows`; a lookup by id gets the first one
+vi.mock("./db", () => {
+  const query = {
+    from: () => query,
+    set: () => query,
+    where: () => query,
+    orderBy: async () => rows,
+    returning: async () => rows.slice(0, 1),
+    then: (resolve: (value: DBMortiseTemplate[]) => unknown) => resolve(rows.slice(0, 1)),
+  };
+  return { db: { select: () => query, update: () => query } };
+});
+
+const { DatabaseStorage, InvalidTemplateError } = await import("./storage");
+const { FakeRenderer } = await import("./renderer");
+
+const row = (id: number, changes: Partial<DBMortiseTemplate> = {}): DBMortiseTemplate => ({
+  id,
+  name: `Template ${id}`,
+  unit_system: "imperial",
+  length_unit: "in",
+  bushing_OD: "0.3125",
+  bit_diameter: "0.25",
+  mortise_length: "1.75",
+  mortise_width: "0.375",
+  edge_distance: "0.25",
+  edge_position: "right",
+  extension_length: "3",
+  extension_width: "3",
+  template_thickness: "0.25",
+  options: {},
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...changes,
+});
+
+describe("DatabaseStorage.getTemplates", () => {
+  afterEach(() => {
+    rows.length = 0;
+    vi.restoreAllMocks();
+  });
+
+  it("loads saved rows with their lengths in the row's unit", async () => {
+    rows.push(row(1), row(2, {
+      unit_system: "metric",
+      length_unit: "mm",
+      bushing_OD: "10",
+      bit_diameter: "6",
+      mortise_length: "40",
+      mortise_width: "8",
+      edge_distance: "8",
+      extension_length: "60",
+      extension_width: "60",
+      template_thickness: "6",
+    }));
+    const templates = await new DatabaseStorage(new FakeRenderer()).getTemplates();
+    expect(templates.map(template => template.id)).toEqual([1, 2]);
+    expect(templates[1].mortise_length).toEqual({ value: 40, unit: "mm" });
+  });
+
+  it("skips rows that no longer parse and returns the rest", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    rows.push(row(1), row(2, { mortise_width: "-1" }), row(3, { options: { template_mode: "dovetail" } }), row(4));
+    const templates = await new DatabaseStorage(new FakeRenderer()).getTemplates();
+    expect(templates.map(template => template.id)).toEqual([1, 4]);
+    expect(error).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("DatabaseStorage on a row that no longer parses", () => {
+  const corrupt = row(7, { mortise_width: "-1" });
+  const valid = mortiseTemplateSchema.parse({
+    unit_system: "imperial",
+    bushing_OD: { value: 0.3125, unit: "in" },
+    bit_diameter: { value: 0.25, unit: "in" },
+    mortise_length: { value: 1.75, unit: "in" },
+    mortise_width: { value: 0.375, unit: "in" },
+    edge_distance: { value: 0.25, unit: "in" },
+    edge_position: "right",
+    extension_length: { value: 3, unit: "in" },
+    extension_width: { value: 3, unit: "in" },
+    template_thickness: { value: 0.25, unit: "in" },
+  });
+  const storage = new DatabaseStorage(new FakeRenderer());
+
+  afterEach(() => {
+    rows.length = 0;
+  });
+
+  const paths: Record<string, () => Promise<unknown>> = {
+    getTemplate: () => storage.getTemplate(7),
+    updateTemplate: () => storage.updateTemplate(7, "Renamed", valid),
+    renameTemplate: () => storage.renameTemplate(7, "Renamed"),
+  };
+
+  for (const [name, call] of Object.entries(paths)) {
+    it(`${name} reports it as an invalid template`, async () => {
+      rows.push(corrupt);
+      const error = await call().catch(error => error);
+      expect(error).toBeInstanceOf(InvalidTemplateError);
+      expect(error).toMatchObject({ id: 7, message: expect.stringMatching(/^Saved template 7 can't be loaded: /) });
+    });
+  }
+});
@@ -1,251 +1,335 @@
-import { type MortiseTemplate, type InsertMortiseTemplate, mortiseTemplates } from "@shared/schema";
+import { type MortiseTemplate, type InsertMortiseTemplate, type SavedTemplate, type DBMortiseTemplate, mortiseTemplates, mortiseTemplateSchema } from "@shared/schema";
+import { convert, unitFor, type Measurement } from "@shared/units";
+import { upgradeLegacyParams } from "@shared/legacy";
 import fs from "fs/promises";
 import path from "path";
-import { exec } from "child_process";
-import { promisify } from "util";
+import { randomBytes } from "crypto";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
+import { renderCache, hashParameters } from "./render-cache";
+import { type Renderer, RenderError, renderer } from "./renderer";
+import { generateOpenSCADContent, hasLabelPart, type ScadPart } from "./scad";
+import { parseSTL } from "./stl";
+import { build3MF } from "./threemf";
+import { generateOutline, type OutlineFormat } from "./outline";
+import { generatePaperTemplate, type PaperSize } from "./paper";
+import { fromZodError } from "zod-validation-error";
+
+export interface RenderOptions {
+  timeoutMs?: number;
+  onLog?: (line: string) => void;
+}
+
+export interface ThreeMFExportOptions extends RenderOptions {
+  title: string;
+  // Render the engraved label as a separate body for a second filament
+  colorLabel: boolean;
+}
 
-const execAsync = promisify(exec);
+// A saved row that no longer parses as a template, e.g. one saved by an
+// older version with values outside today's limits
+export class InvalidTemplateError extends Error {
+  constructor(readonly id: number, reason: string) {
+    super(`Saved template ${id} can't be loaded: ${reason}`);
+  }
+}
 
 export interface IStorage {
-  generateSTLFile(params: MortiseTemplate): Promise<{
+  generateSTLFile(params: MortiseTemplate, options?: RenderOptions): Promise<{
     filePath: string;
     content: Buffer;
+    cached: boolean;
   }>;
-  saveTemplate(template: MortiseTemplate): Promise<void>;
-  getTemplates(): Promise<MortiseTemplate[]>;
+  generateOutlineFile(params: MortiseTemplate, format: OutlineFormat): Promise<{
+    filePath: string;
+    content: Buffer;
+  }>;
+  generate3MFFile(params: MortiseTemplate, options: ThreeMFExportOptions): Promise<{
+    filePath: string;
+    content: Buffer;
+  }>;
+  generatePaperTemplateFile(params: MortiseTemplate, paper: PaperSize): Promise<{
+    filePath: string;
+    content: Buffer;
+  }>;
+  saveTemplate(name: string, template: MortiseTemplate): Promise<SavedTemplate>;
+  getTemplates(): Promise<SavedTemplate[]>;
+  getTemplate(id: number): Promise<SavedTemplate | undefined>;
+  updateTemplate(id: number, name: string, template: MortiseTemplate): Promise<SavedTemplate | undefined>;
+  renameTemplate(id: number, name: string): Promise<SavedTemplate | undefined>;
+  deleteTemplate(id: number): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
-  private decimalToFraction(decimal: number): string {
-    // Handle common fractions for woodworking (1/2, 1/4, 1/8, 1/16)
-    const commonFractions = [
-      { denominator: 2, tolerance: 0.0078125 },   // 1/2 (0.5)
-      { denominator: 4, tolerance: 0.00390625 },  // 1/4 (0.25)
-      { denominator: 8, tolerance: 0.001953125 }, // 1/8 (0.125)
-      { denominator: 16, tolerance: 0.0009765625 }// 1/16 (0.0625)
-    ];
-
-    const wholePart = Math.floor(decimal);
-    const fractionalPart = decimal - wholePart;
-
-    // Special handling for 1/16 (0.03125)
-    if (Math.abs(fractionalPart - 0.03125) < 0.001) {
-      return "1/16";
-    }
-
-    // Check for zero fractional part
-    if (Math.abs(fractionalPart) < 0.001) {
-      return wholePart.toString();
-    }
-
-    // Try to match with common fractions
-    for (const { denominator, tolerance } of commonFractions) {
-      const nearestNumerator = Math.round(fractionalPart * denominator);
-      const difference = Math.abs(fractionalPart - nearestNumerator / denominator);
-
-      if (difference < tolerance) {
-        // Simplify the fraction if possible
-        let num = nearestNumerator;
-        let den = denominator;
+  constructor(private renderer: Renderer) {}
 
-        // Find the GCD
-        const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
-        const divisor = gcd(num, den);
+  // Identical parameter sets requested concurrently share a single render;
+  // every request waiting on it gets the renderer's log, replayed from the
+  // start for those that joined late
+  private inFlight = new Map<string, { render: Promise<string>; log: string[]; listeners: Array<(line: string) => void> }>();
 
-        num = num / divisor;
-        den = den / divisor;
+  async generateSTLFile(params: MortiseTemplate, options: RenderOptions = {}): Promise<{ filePath: string; content: Buffer; cached: boolean }> {
+    try {
+      const cacheKey = hashParameters(params, this.renderer.name);
+      const cachedFile = await renderCache.get(cacheKey);
+      if (cachedFile) {
+        console.log(`Serving cached render ${path.basename(cachedFile)}`);
+        return { filePath: cachedFile, content: await fs.readFile(cachedFile), cached: true };
+      }
 
-        // Return appropriate format based on whole part
-        if (wholePart === 0) {
-          return `${num}/${den}`;
-        }
-        return `${wholePart}-${num}/${den}`;
+      let shared = this.inFlight.get(cacheKey);
+      if (!shared) {
+        const log: string[] = [];
+        const listeners: Array<(line: string) => void> = [];
+        const render = this.renderSTL(params, cacheKey, {
+          timeoutMs: options.timeoutMs,
+          onLog: line => {
+            log.push(line);
+            listeners.forEach(listener => listener(line));
+          },
+        }).finally(() => this.inFlight.delete(cacheKey));
+        shared = { render, log, listeners };
+        this.inFlight.set(cacheKey, shared);
       }
-    }
+      if (options.onLog) {
+        shared.log.forEach(options.onLog);
+        shared.listeners.push(options.onLog);
+      }
+      const stlFile = await shared.render;
 
-    // If no match found, return decimal format with 3 decimal places
-    return decimal.toFixed(3);
+      return {
+        filePath: stlFile,
+        content: await fs.readFile(stlFile),
+        cached: false
+      };
+    } catch (error) {
+      console.error('Error generating STL:', error);
+      if (error instanceof RenderError) throw error;
+      throw new Error('Failed to generate STL file');
+    }
   }
 
-  private formatMeasurement(value: number, unitSystem: string): string {
-    if (unitSystem === "metric") {
-      return value.toFixed(1);
-    }
-    return this.decimalToFraction(value) + '\\"';  // Escape the inch symbol for OpenSCAD
+  private async renderSTL(params: MortiseTemplate, cacheKey: string, options: RenderOptions): Promise<string> {
+    const [stlFile] = await this.renderParts(params, ["template"], options);
+    return renderCache.put(cacheKey, stlFile);
   }
 
-  private async generateOpenSCADContent(params: MortiseTemplate): Promise<string> {
-    // Convert all measurements to millimeters for OpenSCAD
-    const scale = 25.4; // inches to mm
-
-    const bushing_OD = params.bushing_OD_in * scale;
-    const bit_diameter = params.bit_diameter_in * scale;
-    const mortise_length = params.mortise_length_in * scale;
-    const mortise_width = params.mortise_width_in * scale;
-    const edge_distance = params.edge_distance_in * scale;
-    const extension_length = params.extension_length_in * scale;
-    const extension_width = params.extension_width_in * scale;
-    const template_thickness = params.template_thickness_in * scale;
-    const edge_height = 12.7; // 0.5 inches in mm
-    const edge_thickness = 9.525; // 0.375 inches in mm
-
-    // Calculate offset in inches directly
-    const offset_in = (params.bushing_OD_in - params.bit_diameter_in) / 2;
-    const offset = offset_in * scale; // Convert to mm for OpenSCAD
-    const cutout_length = mortise_length + (offset * 2);
-    const cutout_width = mortise_width + (offset * 2);
-
-    // Base template dimensions
-    const total_length = cutout_length + (extension_length * 2);
-    const total_width = cutout_width + edge_thickness + extension_width;
-
-    // Position calculations
-    const cutout_x = (total_length - cutout_length) / 2;
-    const cutout_y = edge_thickness + (edge_distance - offset);
-
-    // Pre-format all measurements for text
-    const formatted = {
-      bushing_OD: this.formatMeasurement(params.bushing_OD_in, params.unit_system),
-      bit_diameter: this.formatMeasurement(params.bit_diameter_in, params.unit_system),
-      mortise_length: this.formatMeasurement(params.mortise_length_in, params.unit_system),
-      mortise_width: this.formatMeasurement(params.mortise_width_in, params.unit_system),
-      edge_distance: this.formatMeasurement(params.edge_distance_in, params.unit_system),
-      offset: params.unit_system === "imperial" ? this.decimalToFraction(offset_in) + '\\"' : offset_in.toFixed(2)
-    };
+  // Render each requested part of the template to its own STL in temp/
+  private async renderParts(params: MortiseTemplate, parts: ScadPart[], options: RenderOptions): Promise<string[]> {
+    const tempDir = path.join(process.cwd(), 'temp');
+    await fs.mkdir(tempDir, { recursive: true });
 
-    return `
-// Dimensions in mm
-total_length = ${total_length};
-total_width = ${total_width};
-thickness = ${template_thickness};
-edge_height = ${edge_height};
-edge_thickness = ${edge_thickness};
-cutout_length = ${cutout_length};
-cutout_width = ${cutout_width};
-cutout_x = ${cutout_x};
-cutout_y = ${cutout_y};
-corner_radius = ${bushing_OD / 2};
-
-// Rounded rectangle module
-module rounded_rect(length, width, height, radius) {
-    hull() {
-        translate([radius, radius, 0])
-            cylinder(h=height, r=radius, $fn=50);
-        translate([length - radius, radius, 0])
-            cylinder(h=height, r=radius, $fn=50);
-        translate([radius, width - radius, 0])
-            cylinder(h=height, r=radius, $fn=50);
-        translate([length - radius, width - radius, 0])
-            cylinder(h=height, r=radius, $fn=50);
-    }
-}
+    const baseName = `mortise_${Date.now()}_${randomBytes(4).toString('hex')}`;
+    const scadFile = path.join(tempDir, `${baseName}.scad`);
 
-// Main template
-difference() {
-    union() {
-        // Base plate
-        cube([total_length, total_width, thickness]);
-        // Edge stop
-        cube([total_length, edge_thickness, thickness + edge_height]);
-    }
+    console.log('Generating SCAD file with params:', JSON.stringify(params, null, 2));
+    const scadContent = generateOpenSCADContent(params);
+
+    // Log the generated OpenSCAD content for debugging
+    console.log('Generated OpenSCAD content:', scadContent);
+
+    await fs.writeFile(scadFile, scadContent);
 
-    // Mortise cutout
-    translate([cutout_x, cutout_y, -0.1])
-        rounded_rect(cutout_length, cutout_width, thickness + 0.2, corner_radius);
-
-    // Text engravings - positioned to the right of cutout with more spacing
-    translate([cutout_x + cutout_length + 20, total_width/2, thickness - 0.5]) {
-        linear_extrude(height = 1.0) {
-            // Each text line positioned with proper spacing
-            text(str("Bushing OD: ", "${formatted.bushing_OD}"), 
-                size = 3, halign = "left");
-            translate([0, -5, 0])
-                text(str("Bit Dia: ", "${formatted.bit_diameter}"), 
-                    size = 3, halign = "left");
-            translate([0, -10, 0])
-                text(str("Length: ", "${formatted.mortise_length}"), 
-                    size = 3, halign = "left");
-            translate([0, -15, 0])
-                text(str("Width: ", "${formatted.mortise_width}"), 
-                    size = 3, halign = "left");
-            translate([0, -20, 0])
-                text(str("Edge Dist: ", "${formatted.edge_distance}"), 
-                    size = 3, halign = "left");
-            translate([0, -25, 0])
-                text(str("Offset: ", "${formatted.offset}"), 
-                    size = 3, halign = "left");
-        }
+    const outputs: string[] = [];
+    try {
+      for (const part of parts) {
+        const stlFile = path.join(tempDir, `${baseName}_${part}.stl`);
+        const { stdout, stderr, diagnostics } = await this.renderer.render({
+          scadFile,
+          outputFile: stlFile,
+          defines: { part },
+          timeoutMs: options.timeoutMs,
+          onLog: options.onLog,
+        });
+        console.log(`${this.renderer.name} output:`, stdout);
+        if (stderr) console.error(`${this.renderer.name} stderr:`, stderr);
+        diagnostics
+          .filter(d => d.level === "warning")
+          .forEach(d => console.warn('OpenSCAD warning:', d.message));
+        outputs.push(stlFile);
+      }
+    } catch (error) {
+      await Promise.all(outputs.map(file => fs.unlink(file).catch(() => undefined)));
+      throw error;
+    } finally {
+      await fs.unlink(scadFile).catch(() => undefined); // Clean up SCAD file
     }
-}
-`;
+
+    return outputs;
   }
 
-  async generateSTLFile(params: MortiseTemplate): Promise<{ filePath: string; content: Buffer }> {
+  async generate3MFFile(params: MortiseTemplate, options: ThreeMFExportOptions): Promise<{ filePath: string; content: Buffer }> {
+    // Without a label there is no second body to color
+    const colorLabel = options.colorLabel && hasLabelPart(params);
+    const cacheKey = hashParameters(params, `${this.renderer.name}-3mf-${colorLabel ? "color" : "single"}-${options.title}`);
+    const cachedFile = await renderCache.get(cacheKey, "3mf");
+    if (cachedFile) {
+      return { filePath: cachedFile, content: await fs.readFile(cachedFile) };
+    }
+
+    const parts: ScadPart[] = colorLabel ? ["base", "label"] : ["template"];
+    const stlFiles = await this.renderParts(params, parts, options);
     try {
-      const tempDir = path.join(process.cwd(), 'temp');
-      await fs.mkdir(tempDir, { recursive: true });
+      const meshes = await Promise.all(stlFiles.map(async file => parseSTL(await fs.readFile(file))));
+      const content = build3MF({
+        title: options.title,
+        params,
+        parts: [
+          { name: "Template", color: "#3b82f6", mesh: meshes[0] },
+          ...(colorLabel ? [{ name: "Label", color: "#111827", mesh: meshes[1] }] : []),
+        ],
+      });
+
+      const threeMFFile = stlFiles[0].replace(/_(template|base)\.stl$/, '.3mf');
+      await fs.writeFile(threeMFFile, content);
+      const filePath = await renderCache.put(cacheKey, threeMFFile, "3mf");
+      return { filePath, content };
+    } finally {
+      await Promise.all(stlFiles.map(file => fs.unlink(file).catch(() => undefined)));
+    }
+  }
 
-      const timestamp = Date.now();
-      const scadFile = path.join(tempDir, `mortise_${timestamp}.scad`);
-      const stlFile = path.join(tempDir, `mortise_${timestamp}.stl`);
+  // 2D outlines are generated natively, so they never touch the renderer
+  async generateOutlineFile(params: MortiseTemplate, format: OutlineFormat): Promise<{ filePath: string; content: Buffer }> {
+    const cacheKey = hashParameters(params, "outline");
+    const cachedFile = await renderCache.get(cacheKey, format);
+    if (cachedFile) {
+      return { filePath: cachedFile, content: await fs.readFile(cachedFile) };
+    }
 
-      console.log('Generating SCAD file with params:', JSON.stringify(params, null, 2));
-      const scadContent = await this.generateOpenSCADContent(params);
+    const tempDir = path.join(process.cwd(), 'temp');
+    await fs.mkdir(tempDir, { recursive: true });
+    const outlineFile = path.join(tempDir, `mortise_${Date.now()}_${randomBytes(4).toString('hex')}.${format}`);
+    await fs.writeFile(outlineFile, generateOutline(params, format));
 
-      // Log the generated OpenSCAD content for debugging
-      console.log('Generated OpenSCAD content:', scadContent);
+    const filePath = await renderCache.put(cacheKey, outlineFile, format);
+    return { filePath, content: await fs.readFile(filePath) };
+  }
 
-      await fs.writeFile(scadFile, scadContent);
+  async generatePaperTemplateFile(params: MortiseTemplate, paper: PaperSize): Promise<{ filePath: string; content: Buffer }> {
+    const cacheKey = hashParameters(params, `paper-${paper}`);
+    const cachedFile = await renderCache.get(cacheKey, "pdf");
+    if (cachedFile) {
+      return { filePath: cachedFile, content: await fs.readFile(cachedFile) };
+    }
 
-      const { stdout, stderr } = await execAsync(`openscad -o "${stlFile}" "${scadFile}"`);
-      console.log('OpenSCAD output:', stdout);
-      if (stderr) console.error('OpenSCAD stderr:', stderr);
+    const tempDir = path.join(process.cwd(), 'temp');
+    await fs.mkdir(tempDir, { recursive: true });
+    const pdfFile = path.join(tempDir, `mortise_${Date.now()}_${randomBytes(4).toString('hex')}.pdf`);
+    await fs.writeFile(pdfFile, await generatePaperTemplate(params, paper));
 
-      const stlContent = await fs.readFile(stlFile);
-      await fs.unlink(scadFile); // Clean up SCAD file
+    const filePath = await renderCache.put(cacheKey, pdfFile, "pdf");
+    return { filePath, content: await fs.readFile(filePath) };
+  }
 
-      return {
-        filePath: stlFile,
-        content: stlContent
-      };
-    } catch (error) {
-      console.error('Error generating STL:', error);
-      throw new Error('Failed to generate STL file');
-    }
+  private toTemplateRow(template: MortiseTemplate) {
+    const {
+      unit_system,
+      bushing_OD,
+      bit_diameter,
+      mortise_length,
+      mortise_width,
+      edge_distance,
+      edge_position,
+      extension_length,
+      extension_width,
+      template_thickness,
+      ...options
+    } = template;
+
+    // Columns hold lengths in the unit system's own unit, so values entered
+    // in that unit are stored exactly
+    const length_unit = unitFor(unit_system);
+    const column = (length: Measurement) => convert(length, length_unit).value.toString();
+
+    return {
+      unit_system,
+      length_unit,
+      bushing_OD: column(bushing_OD),
+      bit_diameter: column(bit_diameter),
+      mortise_length: column(mortise_length),
+      mortise_width: column(mortise_width),
+      edge_distance: column(edge_distance),
+      edge_position,
+      extension_length: column(extension_length),
+      extension_width: column(extension_width),
+      template_thickness: column(template_thickness),
+      options
+    };
   }
 
-  async saveTemplate(template: MortiseTemplate): Promise<void> {
-    await db.insert(mortiseTemplates).values({
+  private fromTemplateRow(template: DBMortiseTemplate): SavedTemplate {
+    const length = (value: string): Measurement => ({ value: Number(value), unit: template.length_unit });
+
+    // Parsing fills in defaults for options added after the row was saved;
+    // options saved before lengths carried units are upgraded first
+    const parsed = mortiseTemplateSchema.safeParse({
+      ...(upgradeLegacyParams({ unit_system: template.unit_system, ...template.options }) as object),
       unit_system: template.unit_system,
-      bushing_OD_in: template.bushing_OD_in.toString(),
-      bit_diameter_in: template.bit_diameter_in.toString(),
-      mortise_length_in: template.mortise_length_in.toString(),
-      mortise_width_in: template.mortise_width_in.toString(),
-      edge_distance_in: template.edge_distance_in.toString(),
+      bushing_OD: length(template.bushing_OD),
+      bit_diameter: length(template.bit_diameter),
+      mortise_length: length(template.mortise_length),
+      mortise_width: length(template.mortise_width),
+      edge_distance: length(template.edge_distance),
       edge_position: template.edge_position,
-      extension_length_in: template.extension_length_in.toString(),
-      extension_width_in: template.extension_width_in.toString(),
-      template_thickness_in: template.template_thickness_in.toString()
+      extension_length: length(template.extension_length),
+      extension_width: length(template.extension_width),
+      template_thickness: length(template.template_thickness)
     });
+    if (!parsed.success) {
+      throw new InvalidTemplateError(template.id, fromZodError(parsed.error).message);
+    }
+    return { id: template.id, name: template.name, ...parsed.data };
   }
 
-  async getTemplates(): Promise<MortiseTemplate[]> {
+  async saveTemplate(name: string, template: MortiseTemplate): Promise<SavedTemplate> {
+    const [saved] = await db.insert(mortiseTemplates)
+      .values({ name, ...this.toTemplateRow(template) })
+      .returning();
+    return this.fromTemplateRow(saved);
+  }
+
+  async getTemplates(): Promise<SavedTemplate[]> {
     const templates = await db.select().from(mortiseTemplates).orderBy(mortiseTemplates.created_at);
-    return templates.map(template => ({
-      unit_system: template.unit_system,
-      bushing_OD_in: Number(template.bushing_OD_in),
-      bit_diameter_in: Number(template.bit_diameter_in),
-      mortise_length_in: Number(template.mortise_length_in),
-      mortise_width_in: Number(template.mortise_width_in),
-      edge_distance_in: Number(template.edge_distance_in),
-      edge_position: template.edge_position,
-      extension_length_in: Number(template.extension_length_in),
-      extension_width_in: Number(template.extension_width_in),
-      template_thickness_in: Number(template.template_thickness_in)
-    }));
+    // A row that no longer parses is left out rather than hiding the rest
+    return templates.flatMap(template => {
+      try {
+        return [this.fromTemplateRow(template)];
+      } catch (error) {
+        if (!(error instanceof InvalidTemplateError)) throw error;
+        console.error(`Skipping ${error.message}`);
+        return [];
+      }
+    });
+  }
+
+  async getTemplate(id: number): Promise<SavedTemplate | undefined> {
+    const [template] = await db.select().from(mortiseTemplates).where(eq(mortiseTemplates.id, id));
+    return template ? this.fromTemplateRow(template) : undefined;
+  }
+
+  async updateTemplate(id: number, name: string, template: MortiseTemplate): Promise<SavedTemplate | undefined> {
+    const [updated] = await db.update(mortiseTemplates)
+      .set({ name, ...this.toTemplateRow(template), updated_at: new Date() })
+      .where(eq(mortiseTemplates.id, id))
+      .returning();
+    return updated ? this.fromTemplateRow(updated) : undefined;
+  }
+
+  async renameTemplate(id: number, name: string): Promise<SavedTemplate | undefined> {
+    const [renamed] = await db.update(mortiseTemplates)
+      .set({ name, updated_at: new Date() })
+      .where(eq(mortiseTemplates.id, id))
+      .returning();
+    return renamed ? this.fromTemplateRow(renamed) : undefined;
+  }
+
+  async deleteTemplate(id: number): Promise<boolean> {
+    const deleted = await db.delete(mortiseTemplates)
+      .where(eq(mortiseTemplates.id, id))
+      .returning({ id: mortiseTemplates.id });
+    return deleted.length > 0;
   }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+export const storage = new DatabaseStorage(renderer);
\ No newline at end of file
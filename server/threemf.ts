@@ -0,0 +1,103 @@
+import { strToU8, zipSync } from "fflate";
+import { type MortiseTemplate } from "@shared/schema";
+import { type IndexedMesh } from "./stl";
+
+// 3MF packaging: a zip holding an XML model with units, metadata and one or
+// two mesh bodies. The parameters are stored as namespaced metadata so a file
+// found later on a shared drive can be traced back to its settings.
+
+const CORE_NAMESPACE = "http://schemas.microsoft.com/3dmanufacturing/core/2015/02";
+const PARAMETER_NAMESPACE = "urn:mortise-template:parameters";
+
+export interface ThreeMFPart {
+  name: string;
+  color: string; // #RRGGBB
+  mesh: IndexedMesh;
+}
+
+export interface ThreeMFOptions {
+  title: string;
+  params: MortiseTemplate;
+  parts: ThreeMFPart[];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function meshXml(mesh: IndexedMesh): string {
+  const vertices = mesh.vertices
+    .map(([x, y, z]) => `<vertex x="${x}" y="${y}" z="${z}"/>`)
+    .join("");
+  const triangles = mesh.triangles
+    .map(([v1, v2, v3]) => `<triangle v1="${v1}" v2="${v2}" v3="${v3}"/>`)
+    .join("");
+  return `<mesh><vertices>${vertices}</vertices><triangles>${triangles}</triangles></mesh>`;
+}
+
+function modelXml({ title, params, parts }: ThreeMFOptions): string {
+  const metadata = [
+    ["Title", title],
+    ["Application", "3D Mortise Template Generator"],
+    ["CreationDate", new Date().toISOString().slice(0, 10)],
+    ["Description", `Mortise template, ${params.unit_system} units, fence on the ${params.edge_position}`],
+    ...Object.entries(params).map(([key, value]) =>
+      [`mortise:${key}`, typeof value === "object" ? JSON.stringify(value) : String(value)]),
+  ]
+    .map(([name, value]) => `  <metadata name="${name}">${escapeXml(value)}</metadata>`)
+    .join("\n");
+
+  const materials = parts
+    .map(part => `      <base name="${escapeXml(part.name)}" displaycolor="${part.color.toUpperCase()}FF"/>`)
+    .join("\n");
+
+  // One mesh object per part, grouped under a single assembly so slicers
+  // treat the template and its label as one multi-material object.
+  const meshObjects = parts
+    .map((part, i) => `    <object id="${i + 2}" type="model" name="${escapeXml(part.name)}" pid="1" pindex="${i}">${meshXml(part.mesh)}</object>`)
+    .join("\n");
+  const assemblyId = parts.length + 2;
+  const components = parts.map((_, i) => `<component objectid="${i + 2}"/>`).join("");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="millimeter" xml:lang="en-US" xmlns="${CORE_NAMESPACE}" xmlns:mortise="${PARAMETER_NAMESPACE}">
+${metadata}
+  <resources>
+    <basematerials id="1">
+${materials}
+    </basematerials>
+${meshObjects}
+    <object id="${assemblyId}" type="model" name="${escapeXml(title)}"><components>${components}</components></object>
+  </resources>
+  <build>
+    <item objectid="${assemblyId}"/>
+  </build>
+</model>
+`;
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`;
+
+export function build3MF(options: ThreeMFOptions): Buffer {
+  const archive = zipSync({
+    "[Content_Types].xml": strToU8(CONTENT_TYPES),
+    "_rels/.rels": strToU8(RELATIONSHIPS),
+    "3D/3dmodel.model": strToU8(modelXml(options)),
+  });
+  return Buffer.from(archive);
+}
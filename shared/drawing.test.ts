@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { mortiseTemplateSchema } from "./schema";
+import { drawingSVG, topViewDrawing } from "./drawing";
+
+const base = {
+  unit_system: "imperial",
+  bushing_OD: { value: 0.3125, unit: "in" },
+  bit_diameter: { value: 0.25, unit: "in" },
+  mortise_length: { value: 1.75, unit: "in" },
+  mortise_width: { value: 0.375, unit: "in" },
+  edge_distance: { value: 0.25, unit: "in" },
+  edge_position: "right",
+  extension_length: { value: 3, unit: "in" },
+  extension_width: { value: 3, unit: "in" },
+  template_thickness: { value: 0.25, unit: "in" },
+};
+
+const drawingFor = (changes: object) => topViewDrawing(mortiseTemplateSchema.parse({ ...base, ...changes }));
+const texts = (changes: object) => drawingFor(changes).dimensions.map(dimension => dimension.text);
+
+describe("topViewDrawing", () => {
+  it("dimensions an imperial template in fractions", () => {
+    // Cutout, bushing offset, fence to mortise, plate length and width, fence
+    expect(texts({})).toEqual(['1-13/16"', '7/16"', '1/32"', '1/4"', '7-13/16"', '3-13/16"', '3/8"']);
+  });
+
+  it("dimensions a metric template in millimetres", () => {
+    expect(texts({
+      unit_system: "metric",
+      bushing_OD: { value: 10, unit: "mm" },
+      bit_diameter: { value: 6, unit: "mm" },
+      mortise_length: { value: 40, unit: "mm" },
+      mortise_width: { value: 8, unit: "mm" },
+      edge_distance: { value: 8, unit: "mm" },
+      extension_length: { value: 50, unit: "mm" },
+      extension_width: { value: 50, unit: "mm" },
+      template_thickness: { value: 6, unit: "mm" },
+    })).toEqual(["44 mm", "12 mm", "2 mm", "8 mm", "144 mm", "71.525 mm", "9.525 mm"]);
+  });
+
+  it("leaves out the fence distance of a mortise against the fence", () => {
+    const hinge = { template_mode: "hinge", hinge_setback: { value: 0, unit: "in" } };
+    expect(texts(hinge)).toHaveLength(6);
+    expect(texts({ ...hinge, hinge_setback: { value: 0.125, unit: "in" } })).toHaveLength(7);
+  });
+
+  it("draws the mortise inside the cutout by the bushing offset", () => {
+    const { layout, mortises: [mortise] } = drawingFor({});
+    const [cutout] = layout.cutouts;
+    expect(mortise.length).toBeCloseTo(1.75 * 25.4, 9);
+    expect(mortise.width).toBeCloseTo(0.375 * 25.4, 9);
+    expect(mortise.x - cutout.x).toBeCloseTo(layout.offset, 9);
+  });
+});
+
+describe("drawingSVG", () => {
+  it("writes every dimension's text, escaped", () => {
+    const drawing = drawingFor({});
+    const svg = drawingSVG(drawing);
+    const labels = [...svg.matchAll(/<text [^>]*>([^<]*)<\/text>/g)].map(match => match[1]);
+    expect(labels).toEqual(drawing.dimensions.map(dimension => dimension.text.replace(/"/g, "&quot;")));
+  });
+
+  it("leaves the plate and fence outlines off an overlay", () => {
+    const svg = drawingSVG(drawingFor({}), false);
+    expect(svg).not.toContain('id="plate"');
+    expect(svg).not.toContain('id="fence"');
+    expect(svg).toContain('id="mortise"');
+  });
+});
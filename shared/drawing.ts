@@ -0,0 +1,222 @@
+import { type MortiseTemplate } from "./schema";
+import { computeTemplateLayout, cutoutBounds, fenceOutlines, type RoundedRect, type TemplateLayout } from "./geometry";
+import { formatDimension } from "./format";
+import { type LabelRegion } from "./label";
+import { millimetres } from "./units";
+
+// Dimensioned top view of one plate, in the layout's plan coordinates (mm,
+// x along the fence, y across the plate): the cutout, bushing offset, edge
+// distance, plate size and fence thickness, written in the template's units.
+
+// A linear dimension between two points, drawn parallel to them and offset
+// to the left of the direction from `from` to `to` (negative: to the right)
+export interface Dimension {
+  from: [number, number];
+  to: [number, number];
+  offset: number;
+  text: string;
+}
+
+export interface TopViewDrawing {
+  layout: TemplateLayout;
+  // The mortise routed through each cutout, inside it by the bushing offset
+  mortises: RoundedRect[];
+  dimensions: Dimension[];
+  // Everything drawn, dimensions included
+  bounds: LabelRegion;
+}
+
+const DIMENSION_TEXT = 3;
+const ARROW_LENGTH = 1.5;
+// Extension lines start this far from the part and run this far past the
+// dimension line
+const EXTENSION_GAP = 1;
+const EXTENSION_OVERSHOOT = 1.5;
+// Dimension line clear of the plate edge or the cutout
+const OUTER_OFFSET = 10;
+const CUTOUT_OFFSET = 6;
+const MARGIN = 2;
+// Rough character advance of the drawing's sans-serif text, relative to its size
+const TEXT_ADVANCE = 0.6;
+// Lengths shorter than this aren't dimensioned
+const MIN_DIMENSION = 0.01;
+
+type Point = [number, number];
+
+const round = (value: number) => Number(value.toFixed(4));
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// A point given relative to the unskewed cutout, turned by its skew
+function onCutout(rect: RoundedRect, x: number, y: number): Point {
+  const angle = (rect.angle ?? 0) * Math.PI / 180;
+  const cx = rect.x + rect.length / 2;
+  const cy = rect.y + rect.width / 2;
+  return [
+    cx + (x - cx) * Math.cos(angle) - (y - cy) * Math.sin(angle),
+    cy + (x - cx) * Math.sin(angle) + (y - cy) * Math.cos(angle),
+  ];
+}
+
+export function topViewDrawing(params: MortiseTemplate): TopViewDrawing {
+  const layout = computeTemplateLayout(params);
+  const { total_length: L, total_width: W, fence_y, edge_thickness, offset } = layout;
+  const [cutout] = layout.cutouts;
+  const bounds = cutoutBounds(cutout);
+  const text = (mm: number) => formatDimension(millimetres(mm), params);
+
+  // The fence runs along y = 0 or the far edge; "away" points from it
+  // across the plate
+  const fenceBelow = fence_y < bounds.y;
+  const away = fenceBelow ? 1 : -1;
+  const fenceFace = fenceBelow ? fence_y + edge_thickness : fence_y;
+  const farEdge = fenceBelow ? W : 0;
+  const cutoutFar = fenceBelow ? cutout.y + cutout.width : cutout.y;
+  const mortiseNear = (fenceBelow ? bounds.y : bounds.y + bounds.width) + away * offset;
+  const midX = bounds.x + bounds.length / 2;
+  const midY = cutout.y + cutout.width / 2;
+
+  const candidates: Dimension[] = [
+    { from: onCutout(cutout, cutout.x, cutoutFar), to: onCutout(cutout, cutout.x + cutout.length, cutoutFar), offset: away * CUTOUT_OFFSET, text: text(cutout.length) },
+    { from: onCutout(cutout, cutout.x + cutout.length, cutout.y), to: onCutout(cutout, cutout.x + cutout.length, cutout.y + cutout.width), offset: -CUTOUT_OFFSET, text: text(cutout.width) },
+    { from: onCutout(cutout, cutout.x, midY), to: onCutout(cutout, cutout.x + offset, midY), offset: 0, text: text(offset) },
+    { from: [midX, fenceFace], to: [midX, mortiseNear], offset: 0, text: text(Math.abs(mortiseNear - fenceFace)) },
+    { from: [0, farEdge], to: [L, farEdge], offset: away * OUTER_OFFSET, text: text(L) },
+    { from: [L, 0], to: [L, W], offset: -OUTER_OFFSET, text: text(W) },
+    { from: [0, fence_y], to: [0, fence_y + edge_thickness], offset: OUTER_OFFSET, text: text(edge_thickness) },
+  ];
+  const dimensions = candidates.filter(dimension => Math.hypot(dimension.to[0] - dimension.from[0], dimension.to[1] - dimension.from[1]) >= MIN_DIMENSION);
+
+  const mortises = layout.cutouts.map(rect => ({
+    ...rect,
+    x: rect.x + offset,
+    y: rect.y + offset,
+    length: rect.length - 2 * offset,
+    width: rect.width - 2 * offset,
+    radius: Math.max(0, rect.radius - offset),
+  }));
+
+  const points: Point[] = [[0, 0], [L, W], ...dimensions.flatMap(dimension => {
+    const { line, label } = dimensionLines(dimension);
+    const reach = label.text.length * DIMENSION_TEXT * TEXT_ADVANCE / 2 + DIMENSION_TEXT;
+    return [...line, [label.x - reach, label.y - reach], [label.x + reach, label.y + reach]] as Point[];
+  })];
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const x = Math.min(...xs) - MARGIN;
+  const y = Math.min(...ys) - MARGIN;
+  return {
+    layout,
+    mortises,
+    dimensions,
+    bounds: { x, y, length: Math.max(...xs) + MARGIN - x, width: Math.max(...ys) + MARGIN - y },
+  };
+}
+
+interface DimensionLines {
+  line: [Point, Point];
+  extensions: Array<[Point, Point]>;
+  arrows: Point[][];
+  // Center of the text and its angle in degrees, turned to read left to right
+  label: { x: number; y: number; angle: number; text: string };
+}
+
+// The lines, arrowheads and text position that draw a dimension
+function dimensionLines(dimension: Dimension): DimensionLines {
+  const { from, to, offset } = dimension;
+  const length = Math.hypot(to[0] - from[0], to[1] - from[1]);
+  const d: Point = [(to[0] - from[0]) / length, (to[1] - from[1]) / length];
+  const n: Point = [-d[1], d[0]];
+  const side = offset < 0 ? -1 : 1;
+  const along = (p: Point, by: number, dir: Point = n): Point => [p[0] + dir[0] * by, p[1] + dir[1] * by];
+
+  const a = along(from, offset);
+  const b = along(to, offset);
+  const extensions: Array<[Point, Point]> = offset === 0 ? [] : [from, to].map(p =>
+    [along(p, side * EXTENSION_GAP), along(p, offset + side * EXTENSION_OVERSHOOT)] as [Point, Point]);
+
+  // Arrowheads point out to the extension lines, or in from outside them
+  // when the dimension is too short to hold both
+  const inward = length >= ARROW_LENGTH * 3 ? 1 : -1;
+  const arrow = (tip: Point, back: Point): Point[] => [
+    tip,
+    along(along(tip, ARROW_LENGTH, back), ARROW_LENGTH / 3),
+    along(along(tip, ARROW_LENGTH, back), -ARROW_LENGTH / 3),
+  ];
+  const arrows = [
+    arrow(a, [d[0] * inward, d[1] * inward]),
+    arrow(b, [-d[0] * inward, -d[1] * inward]),
+  ];
+
+  let angle = Math.atan2(d[1], d[0]) * 180 / Math.PI;
+  if (angle > 90) angle -= 180;
+  if (angle <= -90) angle += 180;
+  const middle: Point = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+  const [x, y] = along(middle, side * DIMENSION_TEXT);
+  return { line: [a, b], extensions, arrows, label: { x, y, angle, text: dimension.text } };
+}
+
+function svgRoundedRect(rect: RoundedRect, flip: (y: number) => number): string {
+  const r = round(Math.min(rect.radius, rect.width / 2, rect.length / 2));
+  // Counterclockwise in plan is clockwise once y is flipped
+  const skew = rect.angle
+    ? ` transform="rotate(${round(-rect.angle)} ${round(rect.x + rect.length / 2)} ${round(flip(rect.y + rect.width / 2))})"`
+    : "";
+  return `    <rect x="${round(rect.x)}" y="${round(flip(rect.y + rect.width))}" width="${round(rect.length)}" height="${round(rect.width)}" rx="${r}" ry="${r}"${skew} />`;
+}
+
+// The drawing as an SVG at 1:1 in millimetres. Without outlines it carries
+// only the mortises and dimensions, to lay over a picture of the template.
+export function drawingSVG(drawing: TopViewDrawing, outlines = true): string {
+  const { layout, bounds } = drawing;
+  // SVG's y axis points down; flip so the drawing matches the 3D model seen from above
+  const flip = (y: number) => -y;
+  const point = ([x, y]: Point) => `${round(x)},${round(flip(y))}`;
+
+  const parts = drawing.dimensions.map(dimensionLines);
+  const lines = parts.flatMap(part => [part.line, ...part.extensions])
+    .map(([a, b]) => `    <polyline points="${point(a)} ${point(b)}" />`);
+  const arrows = parts.flatMap(part => part.arrows)
+    .map(points => `    <polygon points="${points.map(point).join(" ")}" />`);
+  const labels = parts.map(({ label }) =>
+    `    <text x="${round(label.x)}" y="${round(flip(label.y))}" transform="rotate(${round(-label.angle)} ${round(label.x)} ${round(flip(label.y))})">${escapeXml(label.text)}</text>`);
+
+  const plate = outlines
+    ? [
+        `  <g id="plate" fill="none" stroke="#000000" stroke-width="0.3">`,
+        `    <rect x="0" y="${round(flip(layout.total_width))}" width="${round(layout.total_length)}" height="${round(layout.total_width)}" />`,
+        ...layout.cutouts.map(cutout => svgRoundedRect(cutout, flip)),
+        `  </g>`,
+        `  <g id="fence" fill="none" stroke="#000000" stroke-width="0.2" stroke-dasharray="2 1.5">`,
+        ...fenceOutlines(layout).map(block =>
+          `    <rect x="${round(block.x)}" y="${round(flip(block.y + block.width))}" width="${round(block.length)}" height="${round(block.width)}" />`),
+        `  </g>`,
+      ]
+    : [];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${round(bounds.length)}mm" height="${round(bounds.width)}mm"
+     viewBox="${round(bounds.x)} ${round(flip(bounds.y + bounds.width))} ${round(bounds.length)} ${round(bounds.width)}">
+${plate.join("\n")}
+  <g id="mortise" fill="none" stroke="#dc2626" stroke-width="0.2" stroke-dasharray="1 1">
+${drawing.mortises.map(mortise => svgRoundedRect(mortise, flip)).join("\n")}
+  </g>
+  <g id="dimensions" fill="none" stroke="#2563eb" stroke-width="0.2">
+${lines.join("\n")}
+  </g>
+  <g id="arrows" fill="#2563eb" stroke="none">
+${arrows.join("\n")}
+  </g>
+  <g id="dimension-text" fill="#1e3a8a" stroke="none" font-family="Arial, sans-serif" font-size="${DIMENSION_TEXT}"
+     text-anchor="middle" dominant-baseline="middle">
+${labels.join("\n")}
+  </g>
+</svg>
+`;
+}
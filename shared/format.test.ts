@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { decimalToFraction, formatDimension, formatInches, formatMeasurement, nearestFraction } from "./format";
+
+describe("nearestFraction", () => {
+  it("rounds to the nearest 1/64 and reports the error", () => {
+    const { text, error } = nearestFraction(0.2, 64);
+    expect(text).toBe("13/64");
+    expect(error).toBeCloseTo(0.2 - 13 / 64, 10);
+  });
+
+  it("reduces the fraction and rounds to coarser precisions", () => {
+    expect(nearestFraction(0.5, 64).text).toBe("1/2");
+    expect(nearestFraction(0.2, 8).text).toBe("1/4");
+    expect(nearestFraction(1.2, 16).text).toBe("1-3/16");
+  });
+
+  it("carries a fraction that rounds up to the next whole inch", () => {
+    expect(nearestFraction(0.999, 64)).toEqual({ text: "1", error: expect.closeTo(-0.001, 10) });
+    expect(nearestFraction(2.995, 64).text).toBe("3");
+  });
+
+  it("keeps the sign of negative values on the text and the error", () => {
+    expect(nearestFraction(-1.5, 64)).toEqual({ text: "-1-1/2", error: expect.closeTo(0, 10) });
+    const { text, error } = nearestFraction(-0.2, 64);
+    expect(text).toBe("-13/64");
+    expect(error).toBeCloseTo(-0.2 + 13 / 64, 10);
+  });
+});
+
+describe("decimalToFraction", () => {
+  it("writes exact fractions of an inch", () => {
+    expect(decimalToFraction(0.3125)).toBe("5/16");
+    expect(decimalToFraction(1.75)).toBe("1-3/4");
+    expect(decimalToFraction(3)).toBe("3");
+    expect(decimalToFraction(1 / 64)).toBe("1/64");
+  });
+
+  it("treats values within the tolerance as the fraction", () => {
+    expect(decimalToFraction(0.9999)).toBe("1");
+    expect(decimalToFraction(9.525 / 25.4)).toBe("3/8");
+  });
+
+  it("falls back to decimals when no fraction matches", () => {
+    expect(decimalToFraction(0.2)).toBe("0.200");
+    expect(decimalToFraction(0.999)).toBe("0.999");
+    expect(decimalToFraction(0.3, 16)).toBe("0.300");
+  });
+
+  it("writes negative values", () => {
+    expect(decimalToFraction(-0.25)).toBe("-1/4");
+    expect(decimalToFraction(-1.5)).toBe("-1-1/2");
+    expect(decimalToFraction(-0.2)).toBe("-0.200");
+  });
+});
+
+describe("formatInches", () => {
+  it("fraction style falls back to decimals", () => {
+    const format = { precision: 64, style: "fraction" } as const;
+    expect(formatInches(0.3125, format)).toBe('5/16"');
+    expect(formatInches(0.2, format)).toBe('0.200"');
+    expect(formatInches(-0.75, format)).toBe('-3/4"');
+  });
+
+  it("nearest style rounds and notes the error", () => {
+    const format = { precision: 64, style: "nearest" } as const;
+    expect(formatInches(0.3125, format)).toBe('5/16"');
+    expect(formatInches(0.2, format)).toBe('13/64" (-0.003)');
+    expect(formatInches(0.999, format)).toBe('1" (-0.001)');
+    expect(formatInches(-0.2, format)).toBe('-13/64" (+0.003)');
+    expect(formatInches(0.2, { precision: 8, style: "nearest" })).toBe('1/4" (-0.050)');
+  });
+
+  it("both style shows the fraction with its decimal", () => {
+    const format = { precision: 64, style: "both" } as const;
+    expect(formatInches(0.3125, format)).toBe('5/16" (0.313)');
+    expect(formatInches(0.2, format)).toBe('~13/64" (0.200)');
+    expect(formatInches(0.999, format)).toBe('~1" (0.999)');
+    expect(formatInches(-1.25, format)).toBe('-1-1/4" (-1.250)');
+  });
+});
+
+describe("formatMeasurement", () => {
+  it("writes imperial lengths in the template's fraction format", () => {
+    const format = { unit_system: "imperial", fraction_precision: 16, fraction_style: "nearest" } as const;
+    expect(formatMeasurement({ value: 8, unit: "mm" }, format)).toBe('5/16" (+0.002)');
+    expect(formatMeasurement({ value: 0.5, unit: "in" }, { unit_system: "imperial" })).toBe('1/2"');
+  });
+
+  it("writes metric lengths exactly as entered", () => {
+    const metric = { unit_system: "metric" } as const;
+    expect(formatMeasurement({ value: 44.45, unit: "mm" }, metric)).toBe("44.45");
+    expect(formatMeasurement({ value: 40, unit: "mm" }, metric)).toBe("40");
+    expect(formatMeasurement({ value: 6.125, unit: "mm" }, metric)).toBe("6.125");
+    expect(formatMeasurement({ value: 0.1 + 0.2, unit: "mm" }, metric)).toBe("0.3");
+  });
+
+  it("writes metric lengths in millimetres", () => {
+    expect(formatMeasurement({ value: 0.5, unit: "in" }, { unit_system: "metric" })).toBe("12.7");
+    expect(formatDimension({ value: 12.34, unit: "mm" }, { unit_system: "metric" })).toBe("12.34 mm");
+    expect(formatDimension({ value: 0.5, unit: "in" }, { unit_system: "imperial" })).toBe('1/2"');
+  });
+});
@@ -0,0 +1,103 @@
+import { toInches, toMm, type Measurement } from "./units";
+
+// Measurement formatting shared by the engraved labels, the 2D exports and the UI
+
+// Finest to coarsest: how small a fraction of an inch labels may show
+export const FRACTION_DENOMINATORS = [2, 4, 8, 16, 32, 64] as const;
+export type FractionDenominator = typeof FRACTION_DENOMINATORS[number];
+
+// "fraction" shows exact fractions and falls back to decimals, "nearest"
+// rounds to the nearest fraction and notes the error, "both" shows the
+// fraction with its decimal value.
+export const FRACTION_STYLES = ["fraction", "nearest", "both"] as const;
+export type FractionStyle = typeof FRACTION_STYLES[number];
+
+export interface FractionFormat {
+  precision: FractionDenominator;
+  style: FractionStyle;
+}
+
+export const DEFAULT_FRACTION_FORMAT: FractionFormat = { precision: 64, style: "fraction" };
+
+// How a template wants its lengths written; MortiseTemplate satisfies this
+export interface LengthFormat {
+  unit_system: "imperial" | "metric";
+  fraction_precision?: FractionDenominator;
+  fraction_style?: FractionStyle;
+}
+
+// Anything this close to a fraction is that fraction: float noise, or a
+// millimetre value that is a whole fraction of an inch to four places
+const FRACTION_TOLERANCE = 0.0005;
+
+const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+
+interface NearestFraction {
+  text: string;
+  // Value minus the fraction, in inches
+  error: number;
+}
+
+export function nearestFraction(decimal: number, precision: number): NearestFraction {
+  const sign = decimal < 0 ? "-" : "";
+  const magnitude = Math.abs(decimal);
+  let whole = Math.floor(magnitude);
+  let numerator = Math.round((magnitude - whole) * precision);
+  if (numerator === precision) {
+    whole += 1;
+    numerator = 0;
+  }
+  const rounded = whole + numerator / precision;
+  const error = (magnitude - rounded) * (decimal < 0 ? -1 : 1);
+
+  if (numerator === 0) return { text: `${sign}${whole}`, error };
+  const divisor = gcd(numerator, precision);
+  const fraction = `${numerator / divisor}/${precision / divisor}`;
+  return { text: whole === 0 ? `${sign}${fraction}` : `${sign}${whole}-${fraction}`, error };
+}
+
+// Write inches as a whole number and fraction ("1-3/4", "5/16") down to
+// 1/precision, or with three decimals when no such fraction matches
+export function decimalToFraction(decimal: number, precision: FractionDenominator = DEFAULT_FRACTION_FORMAT.precision): string {
+  const { text, error } = nearestFraction(decimal, precision);
+  return Math.abs(error) <= FRACTION_TOLERANCE ? text : decimal.toFixed(3);
+}
+
+// Inches with the inch mark, in the given fraction style
+export function formatInches(decimal: number, format: FractionFormat = DEFAULT_FRACTION_FORMAT): string {
+  const { text, error } = nearestFraction(decimal, format.precision);
+  const exact = Math.abs(error) <= FRACTION_TOLERANCE;
+  switch (format.style) {
+    case "nearest":
+      return exact ? `${text}"` : `${text}" (${error > 0 ? "+" : "-"}${Math.abs(error).toFixed(3)})`;
+    case "both":
+      return exact ? `${text}" (${decimal.toFixed(3)})` : `~${text}" (${decimal.toFixed(3)})`;
+    default:
+      return exact ? `${text}"` : `${decimal.toFixed(3)}"`;
+  }
+}
+
+export function fractionFormat(format: LengthFormat): FractionFormat {
+  return {
+    precision: format.fraction_precision ?? DEFAULT_FRACTION_FORMAT.precision,
+    style: format.fraction_style ?? DEFAULT_FRACTION_FORMAT.style,
+  };
+}
+
+// Millimetres are written as entered, down to the micron the form accepts;
+// only float noise below that is dropped
+const MM_DECIMALS = 3;
+
+export function formatMeasurement(value: Measurement, format: LengthFormat): string {
+  if (format.unit_system === "metric") {
+    return Number(toMm(value).toFixed(MM_DECIMALS)).toString();
+  }
+  return formatInches(toInches(value), fractionFormat(format));
+}
+
+// formatMeasurement with the unit written out for millimetres, for lengths
+// shown on their own such as dimensions on a drawing
+export function formatDimension(value: Measurement, format: LengthFormat): string {
+  const text = formatMeasurement(value, format);
+  return format.unit_system === "metric" ? `${text} mm` : text;
+}
@@ -0,0 +1,223 @@
+import { describe, expect, it } from "vitest";
+import { mortiseTemplateSchema, validatedTemplateSchema } from "./schema";
+import { computeTemplateLayout, cutoutBounds, type AngledBase } from "./geometry";
+import { topViewDrawing } from "./drawing";
+import { MAX_ROUTER_ANGLE } from "./validation";
+
+const base = {
+  unit_system: "imperial",
+  bushing_OD: { value: 0.3125, unit: "in" },
+  bit_diameter: { value: 0.25, unit: "in" },
+  mortise_length: { value: 1.75, unit: "in" },
+  mortise_width: { value: 0.375, unit: "in" },
+  edge_distance: { value: 0.25, unit: "in" },
+  edge_position: "right",
+  extension_length: { value: 3, unit: "in" },
+  extension_width: { value: 3, unit: "in" },
+  template_thickness: { value: 0.25, unit: "in" },
+};
+
+// Exact in millimetres: a 40 mm mortise, 2 mm bushing offset, 44 mm cutout
+const metric = {
+  ...base,
+  unit_system: "metric",
+  bushing_OD: { value: 10, unit: "mm" },
+  bit_diameter: { value: 6, unit: "mm" },
+  mortise_length: { value: 40, unit: "mm" },
+  mortise_width: { value: 8, unit: "mm" },
+  edge_distance: { value: 8, unit: "mm" },
+  extension_length: { value: 50, unit: "mm" },
+  extension_width: { value: 50, unit: "mm" },
+  template_thickness: { value: 6, unit: "mm" },
+};
+
+const layoutFor = (changes: object) => computeTemplateLayout(mortiseTemplateSchema.parse({ ...base, ...changes }));
+
+type Vector = [number, number, number];
+const sub = (a: Vector, b: Vector): Vector => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vector, b: Vector) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vector, b: Vector): Vector =>
+  [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const norm = (a: Vector) => Math.sqrt(dot(a, a));
+
+// The turned plate's normal, which is the router's axis
+function axis(angled: AngledBase): Vector {
+  const [c0, c1, , c3] = angled.corners;
+  const n = cross(sub(c1, c0), sub(c3, c0));
+  return n.map(v => v / norm(n)) as Vector;
+}
+
+describe("angled mortises", () => {
+  const angles: Array<[number, number]> = [[45, 0], [-45, 0], [0, 45], [0, -45], [45, 45], [-45, 45], [20, -30]];
+
+  for (const [tilt, splay] of angles) {
+    describe(`tilt ${tilt}°, splay ${splay}°`, () => {
+      const layout = layoutFor({ tilt_angle: tilt, splay_angle: splay });
+      const angled = layout.angled!;
+      const { total_length: L, total_width: W } = layout;
+
+      it("turns the plate without stretching it", () => {
+        const [c0, c1, c2, c3] = angled.corners;
+        expect(norm(sub(c1, c0))).toBeCloseTo(L, 9);
+        expect(norm(sub(c3, c0))).toBeCloseTo(W, 9);
+        expect(norm(sub(c2, c1))).toBeCloseTo(W, 9);
+        expect(dot(sub(c1, c0), sub(c3, c0))).toBeCloseTo(0, 6);
+      });
+
+      it("stands the wedge on the bed with its low corner at the minimum thickness", () => {
+        const zs = angled.corners.map(([, , z]) => z);
+        expect(Math.min(...zs)).toBeCloseTo(1, 9);
+        expect(angled.rise).toBeCloseTo(Math.max(...zs), 9);
+        expect(angled.below).toBeGreaterThan(angled.rise);
+      });
+
+      it("leans the router by the compound angle", () => {
+        const t = tilt * Math.PI / 180;
+        const s = splay * Math.PI / 180;
+        const lean = Math.acos(axis(angled)[2]) * 180 / Math.PI;
+        expect(lean).toBeCloseTo(Math.acos(Math.cos(t) * Math.cos(s)) * 180 / Math.PI, 6);
+      });
+
+      it("aims the router's axis through the pivot at the same point on the workpiece", () => {
+        const n = axis(angled);
+        const [px, py] = angled.pivot;
+        const turned: Vector = [px + angled.shift[0], py + angled.shift[1], angled.pivot_z];
+        const landing = sub(turned, n.map(v => v * angled.pivot_z / n[2]) as Vector);
+        expect(landing[0]).toBeCloseTo(px, 6);
+        expect(landing[1]).toBeCloseTo(py, 6);
+      });
+    });
+  }
+
+  it("leans a positive tilt toward the fence on either side", () => {
+    for (const edge_position of ["left", "right"]) {
+      const layout = layoutFor({ edge_position, tilt_angle: 20 });
+      const cutout = layout.cutouts[0];
+      const towardFence = Math.sign(layout.fence_y - cutout.y);
+      expect(Math.sign(axis(layout.angled!)[1])).toBe(towardFence);
+    }
+  });
+
+  it("leaves a square mortise flat", () => {
+    expect(layoutFor({}).angled).toBeNull();
+  });
+});
+
+describe("skewed mortises", () => {
+  for (const rotation of [90, -90]) {
+    it(`turns the cutout's bounds by ${rotation}°`, () => {
+      const layout = layoutFor({ mortise_rotation: rotation });
+      const [cutout] = layout.cutouts;
+      expect(cutout.angle).toBe(rotation);
+      const bounds = cutoutBounds(cutout);
+      expect(bounds.length).toBeCloseTo(cutout.width, 9);
+      expect(bounds.width).toBeCloseTo(cutout.length, 9);
+      expect(bounds.x + bounds.length / 2).toBeCloseTo(cutout.x + cutout.length / 2, 9);
+      expect(bounds.y + bounds.width / 2).toBeCloseTo(cutout.y + cutout.width / 2, 9);
+    });
+  }
+
+  it("bounds a 45° cutout by its diagonal extent", () => {
+    const bounds = cutoutBounds({ x: 0, y: 0, length: 40, width: 10, radius: 5, angle: 45 });
+    expect(bounds.length).toBeCloseTo(50 * Math.SQRT1_2, 9);
+    expect(bounds.width).toBeCloseTo(50 * Math.SQRT1_2, 9);
+  });
+
+  it("dimensions a 90° cutout's length across the plate", () => {
+    const drawing = topViewDrawing(mortiseTemplateSchema.parse({ ...base, mortise_rotation: 90 }));
+    const [cutout] = drawing.layout.cutouts;
+    const [length] = drawing.dimensions;
+    expect(length.to[0] - length.from[0]).toBeCloseTo(0, 9);
+    expect(Math.abs(length.to[1] - length.from[1])).toBeCloseTo(cutout.length, 9);
+  });
+});
+
+describe("angle limits", () => {
+  const fieldIssues = (changes: object) => {
+    const result = validatedTemplateSchema.safeParse({ ...base, ...changes });
+    return result.success ? [] : result.error.issues.map(issue => issue.path.join("."));
+  };
+
+  it("accepts angles up to the router's limit", () => {
+    expect(fieldIssues({ tilt_angle: MAX_ROUTER_ANGLE })).toEqual([]);
+    expect(fieldIssues({ splay_angle: -MAX_ROUTER_ANGLE })).toEqual([]);
+    expect(fieldIssues({ mortise_rotation: 90 })).not.toContain("mortise_rotation");
+    expect(fieldIssues({ mortise_rotation: -90 })).not.toContain("mortise_rotation");
+  });
+
+  it("rejects a lean past the router's limit", () => {
+    expect(fieldIssues({ tilt_angle: 45 })).toEqual(["tilt_angle"]);
+    expect(fieldIssues({ splay_angle: -45 })).toEqual(["splay_angle"]);
+  });
+
+  it("rejects angles outside the fields' ranges", () => {
+    expect(fieldIssues({ tilt_angle: 46 })).toContain("tilt_angle");
+    expect(fieldIssues({ splay_angle: -46 })).toContain("splay_angle");
+    expect(fieldIssues({ mortise_rotation: 91 })).toContain("mortise_rotation");
+  });
+});
+
+describe("spacing modes", () => {
+  const mm = (value: number) => ({ value, unit: "mm" });
+
+  // Mortise centers along the fence, relative to the middle of the plate
+  function centers(changes: object): number[] {
+    const layout = computeTemplateLayout(mortiseTemplateSchema.parse({ ...metric, ...changes }));
+    return layout.cutouts.map(cutout => Number((cutout.x + cutout.length / 2 - layout.total_length / 2).toFixed(6)));
+  }
+
+  it("centers a single mortise", () => {
+    expect(centers({})).toEqual([0]);
+  });
+
+  it("centered: spaces the mortises center to center about the middle", () => {
+    expect(centers({ mortise_count: 3, mortise_spacing: mm(60) })).toEqual([-60, 0, 60]);
+    expect(centers({ mortise_count: 2, mortise_spacing: mm(60) })).toEqual([-30, 30]);
+  });
+
+  it("equal: leaves equal gaps between the mortises and the ends of the span", () => {
+    // (200 - 3 x 40) / 4 = 20 mm gaps, so 60 mm center to center
+    expect(centers({ mortise_count: 3, spacing_mode: "equal", mortise_span: mm(200) })).toEqual([-60, 0, 60]);
+    expect(centers({ mortise_count: 2, spacing_mode: "equal", mortise_span: mm(140) })).toEqual([-30, 30]);
+  });
+
+  it("explicit: places the mortises at the given positions, in order", () => {
+    expect(centers({ spacing_mode: "explicit", mortise_offsets: [mm(130), mm(0), mm(50)] })).toEqual([-65, -15, 65]);
+  });
+
+  it("sizes the plate to the group plus an extension at each end", () => {
+    const layout = computeTemplateLayout(mortiseTemplateSchema.parse({ ...metric, mortise_count: 3, mortise_spacing: mm(60) }));
+    expect(layout.total_length).toBeCloseTo(120 + 44 + 2 * 50, 9);
+    expect(layout.cutouts.map(cutout => cutout.length)).toEqual([44, 44, 44]);
+  });
+});
+
+describe("fence ruler", () => {
+  const params = { ...metric, fence_ruler: true };
+
+  it("ticks every 2 mm from the middle of the group and numbers every 10 mm", () => {
+    const layout = computeTemplateLayout(mortiseTemplateSchema.parse(params));
+    const ruler = layout.marks.ruler!;
+    // 144 mm plate: zero at 72, ticks out to 35 steps either side
+    expect(layout.total_length).toBe(144);
+    const centers = ruler.ticks.map(tick => Number((tick.x + tick.length / 2).toFixed(6)));
+    expect(centers).toHaveLength(71);
+    expect(centers[0]).toBe(2);
+    expect(centers[35]).toBe(72);
+    expect(centers.slice(1).every((x, i) => Number((x - centers[i]).toFixed(6)) === 2)).toBe(true);
+
+    expect(ruler.numbers.map(number => number.text)).toEqual(
+      ["70", "60", "50", "40", "30", "20", "10", "0", "10", "20", "30", "40", "50", "60", "70"]);
+    expect(ruler.numbers.map(number => number.x)).toEqual(centers.filter((_, i) => (i - 35) % 5 === 0));
+
+    // Numbered ticks run longer than the rest
+    const major = layout.edge_thickness * 0.45;
+    const minor = layout.edge_thickness * 0.2;
+    expect(ruler.ticks.map(tick => tick.width)).toEqual(centers.map((_, i) => (i - 35) % 5 === 0 ? major : minor));
+  });
+
+  it("leaves the ruler off an adjustable fence", () => {
+    const layout = computeTemplateLayout(mortiseTemplateSchema.parse({ ...params, fence_type: "adjustable" }));
+    expect(layout.marks.ruler).toBeNull();
+  });
+});
@@ -0,0 +1,768 @@
+import { type MortiseTemplate } from "./schema";
+import { formatMeasurement } from "./format";
+import { HINGE_CATALOG } from "./hinges";
+import { placeLabel, subtractRegion, LABEL_MARGIN, LINE_SPACING, type LabelFont, type LabelField, type LabelRegion, type LabelStyle } from "./label";
+import { mountingFeatures, PAD_DIAMETER, SCREW_HEAD, type MountingFeatures } from "./mounting";
+import { combine, inches, millimetres, toMm, INCH, type Measurement } from "./units";
+
+// Plan-view layout of a template, in millimetres. x runs along the fence,
+// y across the plate; z = 0 is the underside of the plate.
+
+export { INCH } from "./units";
+export const ENGRAVE_DEPTH = 0.5;
+
+export interface RoundedRect {
+  x: number;
+  y: number;
+  length: number;
+  width: number;
+  radius: number;
+  // Counterclockwise about its center, in degrees
+  angle?: number;
+}
+
+// Position of the first baseline and the size the text is cut at, which is
+// smaller than asked for when the plate has no room for the full size
+export interface TemplateLabel {
+  x: number;
+  y: number;
+  size: number;
+  lineSpacing: number;
+  font: LabelFont;
+  style: LabelStyle;
+}
+
+// One plate of the print. Loose-tenon pairs print two identical plates, one
+// for each board, offset across y and labelled separately. Through-mortise
+// templates also carry a label on the underside.
+export interface TemplateCopy {
+  dy: number;
+  lines: string[];
+  underside_lines: string[];
+}
+
+// Engraved arrow pointing at the fence: the board's reference face goes
+// against the fence, so every mortise cut from it lines up.
+export interface ReferenceMark {
+  points: Array<[number, number]>;
+}
+
+// A straight V-groove along a top face whose surface is at height z
+export interface Groove {
+  from: [number, number];
+  to: [number, number];
+  z: number;
+}
+
+// Rectangular tick engraved into the top of the fence, and a number beside
+// the major ticks
+export interface RulerTick {
+  x: number;
+  y: number;
+  length: number;
+  width: number;
+}
+
+export interface FenceRuler {
+  ticks: RulerTick[];
+  numbers: Array<{ x: number; y: number; text: string }>;
+  size: number;
+}
+
+// Aids for lining the template up with pencil marks on the workpiece
+export interface RegistrationMarks {
+  grooves: Groove[];
+  // V-notches in plan view, cut through the plate and fence
+  notches: Array<Array<[number, number]>>;
+  ruler: FenceRuler | null;
+}
+
+export interface Block {
+  x: number;
+  y: number;
+  length: number;
+  width: number;
+}
+
+// The separately printed bar of an adjustable fence, lying on its side,
+// with bolt holes at the given x positions
+export interface FenceBar {
+  length: number;
+  width: number;
+  height: number;
+  holes: number[];
+}
+
+// The wedge that sets the plate at an angle. The plate is laid out flat as
+// usual, then turned about the pivot (on its underside, under the middle of
+// the mortises) by tilt about x and splay about y, in that order, raised to
+// pivot_z and shifted so the router's axis through the pivot still meets
+// the workpiece at the pivot. The wedge fills the space down to z = 0.
+export interface AngledBase {
+  tilt: number;
+  splay: number;
+  pivot: [number, number];
+  pivot_z: number;
+  shift: [number, number];
+  // Plate underside corners in place, in the order (0, 0), (L, 0), (L, W), (0, W)
+  corners: Array<[number, number, number]>;
+  // Highest point of the wedge
+  rise: number;
+  // How far below the turned plate a cut must reach to clear the wedge
+  below: number;
+}
+
+export interface TemplateLayout {
+  total_length: number;
+  total_width: number;
+  thickness: number;
+  engrave_depth: number;
+  edge_height: number;
+  edge_thickness: number;
+  // The fence along the workpiece edge, which may be a bolted-on bar
+  fence_y: number;
+  // Open top face across the plate, clear of fences
+  inner: { y: number; width: number };
+  // Fixed fences and end stop, edge_height above the plate and edge_below
+  // under it
+  blocks: Block[];
+  edge_below: number;
+  fence_slots: Block[];
+  fence_bar: FenceBar | null;
+  angled: AngledBase | null;
+  offset: number;
+  // One per mortise, ordered along the fence; all the same size
+  cutouts: RoundedRect[];
+  label: TemplateLabel;
+  // Placed as seen with the plate turned over about the x axis, so y runs
+  // from the far side; null unless the template works from both faces
+  underside_label: TemplateLabel | null;
+  copies: TemplateCopy[];
+  // Extent across y of all copies together
+  overall_width: number;
+  // Extent across y of everything printed
+  print_width: number;
+  reference_mark: ReferenceMark | null;
+  marks: RegistrationMarks;
+  mounting: MountingFeatures;
+}
+
+export const PAIR_GAP = 10; // mm between the two plates of a loose-tenon pair
+const REFERENCE_MARK_SIZE = 6;
+// 90 degree V-grooves, so they are twice as wide as they are deep
+export const GROOVE_DEPTH = 0.6;
+const TICK_LENGTH = 6;
+const NOTCH_DEPTH = 4;
+const RULER_TEXT_SIZE = 2.5;
+// 1/4" bolts through the adjustable fence, this far in from each end
+export const FENCE_BOLT_CLEARANCE = 6.6;
+const FENCE_BOLT_INSET = 15;
+
+export interface ResolvedMortise {
+  length: Measurement;
+  width: Measurement;
+  // From the inside face of the fence to the near side of the mortise
+  edge_distance: Measurement;
+  // Known in loose-tenon mode (half the tenon plus the allowance) and hinge
+  // mode (the leaf thickness)
+  depth?: Measurement;
+  // Corner radius wanted in the workpiece; unset means as tight as the bit allows
+  corner_radius?: Measurement;
+}
+
+// Mortise centers along the fence in mm, relative to the middle of the
+// group, so the group can be centered on the plate.
+export function mortiseCenters(params: MortiseTemplate, mortise_length: number): number[] {
+  let centers: number[];
+  if (params.spacing_mode === "explicit") {
+    centers = params.mortise_offsets.map(toMm).sort((a, b) => a - b);
+  } else {
+    const count = params.mortise_count;
+    const pitch = params.spacing_mode === "equal"
+      ? (toMm(params.mortise_span) - count * mortise_length) / (count + 1) + mortise_length
+      : toMm(params.mortise_spacing);
+    centers = Array.from({ length: count }, (_, i) => i * pitch);
+  }
+  const middle = (centers[0] + centers[centers.length - 1]) / 2;
+  return centers.map(center => center - middle);
+}
+
+// With a double fence the mortise can be centered in the stock between them
+function fenceEdgeDistance(params: MortiseTemplate, width: Measurement): Measurement {
+  if (params.fence_type !== "double" || !params.center_in_stock) return params.edge_distance;
+  return combine(params.stock_thickness, width, (stock, mortise) => (stock - mortise) / 2);
+}
+
+// The slot the router cuts. In loose-tenon mode it follows from the tenon
+// stock so both boards get the same mortise from the same offset math; in
+// hinge mode from the hinge leaf.
+export function resolveMortise(params: MortiseTemplate): ResolvedMortise {
+  if (params.template_mode === "loose_tenon") {
+    return {
+      length: params.tenon_width,
+      width: params.tenon_thickness,
+      edge_distance: fenceEdgeDistance(params, params.tenon_thickness),
+      depth: combine(params.tenon_length, params.depth_allowance, (length, allowance) => length / 2 + allowance),
+    };
+  }
+  if (params.template_mode === "hinge") {
+    const catalog = params.hinge_size === "custom" ? null : HINGE_CATALOG[params.hinge_size];
+    const hinge = catalog
+      ? {
+          leaf_length: inches(catalog.leaf_length_in),
+          leaf_width: inches(catalog.leaf_width_in),
+          depth: inches(catalog.depth_in),
+          corner_radius: inches(catalog.corner_radius_in),
+        }
+      : {
+          leaf_length: params.hinge_leaf_length,
+          leaf_width: params.hinge_leaf_width,
+          depth: params.hinge_depth,
+          corner_radius: params.hinge_corner_radius,
+        };
+    return {
+      length: hinge.leaf_length,
+      width: hinge.leaf_width,
+      edge_distance: params.hinge_setback,
+      depth: hinge.depth,
+      corner_radius: params.hinge_corners === "radiused" ? hinge.corner_radius : undefined,
+    };
+  }
+  return {
+    length: params.mortise_length,
+    width: params.mortise_width,
+    edge_distance: fenceEdgeDistance(params, params.mortise_width),
+    // Routed halfway from each face
+    ...(params.template_mode === "through"
+      ? { depth: { value: params.through_thickness.value / 2, unit: params.through_thickness.unit } }
+      : {}),
+  };
+}
+
+// Bushing offset per side: how far the cutout edge sits outside the mortise
+export function bushingOffset(params: MortiseTemplate): Measurement {
+  return combine(params.bushing_OD, params.bit_diameter, (bushing, bit) => (bushing - bit) / 2);
+}
+
+export function computeTemplateLayout(params: MortiseTemplate): TemplateLayout {
+  // Convert all measurements to millimeters
+  const size = resolveMortise(params);
+  const bushing_OD = toMm(params.bushing_OD);
+  const mortise_length = toMm(size.length);
+  const mortise_width = toMm(size.width);
+  const edge_distance = toMm(size.edge_distance);
+  const extension_length = toMm(params.extension_length);
+  const extension_width = toMm(params.extension_width);
+  const thickness = toMm(params.template_thickness);
+  const edge_thickness = toMm(params.fence_thickness);
+  const edge_height = toMm(params.fence_height);
+  const double = params.fence_type === "double";
+  // A through-mortise template is turned over to rout from the second face,
+  // so its fences stand out the same distance on both sides of the plate
+  const through = params.template_mode === "through";
+  const edge_below = through ? edge_height : 0;
+  // An adjustable fence slides half its travel either way from where
+  // edge_distance puts it, so the plate reaches that far past it
+  const travel = params.fence_type === "adjustable" ? toMm(params.fence_adjustment) : 0;
+
+  const offsetLength = bushingOffset(params);
+  const offset = toMm(offsetLength);
+  const slot_length = mortise_length + (offset * 2);
+  const slot_width = mortise_width + (offset * 2);
+  // A mortise skewed to the fence takes up its rotated extent on the plate,
+  // and everything below is laid out around that
+  const skew = params.mortise_rotation * Math.PI / 180;
+  const cutout_length = slot_length * Math.abs(Math.cos(skew)) + slot_width * Math.abs(Math.sin(skew));
+  const cutout_width = slot_length * Math.abs(Math.sin(skew)) + slot_width * Math.abs(Math.cos(skew));
+  const centers = mortiseCenters(params, mortise_length * Math.abs(Math.cos(skew)) + mortise_width * Math.abs(Math.sin(skew)));
+  const group_length = centers[centers.length - 1] - centers[0] + cutout_length;
+
+  // Base template dimensions. Across the fence, the plate runs to
+  // extension_width past the cutout, or to the outside of the second fence.
+  const total_length = group_length + (extension_length * 2);
+  const far_side = double ? toMm(params.stock_thickness) + edge_thickness : cutout_width + extension_width;
+  const total_width = travel / 2 + edge_thickness + far_side;
+
+  // Position calculations. The fence sits along y=0 for a left-hand setup and
+  // along the far edge for a right-hand setup; the cutout is always measured
+  // from the inside face of the fence, so the whole layout is mirrored.
+  const isLeft = params.edge_position === "left";
+  const fence_y = isLeft ? travel / 2 : total_width - travel / 2 - edge_thickness;
+  const fence_face = isLeft ? fence_y + edge_thickness : fence_y;
+  const second_fence_y = double ? (isLeft ? total_width - edge_thickness : 0) : null;
+  // The open top face, clear of both fences and wherever an adjustable fence
+  // can be set
+  const inner_near = isLeft ? fence_face + travel / 2 : (double ? edge_thickness : 0);
+  const inner_far = isLeft ? (double ? total_width - edge_thickness : total_width) : fence_face - travel / 2;
+  const inner = { y: inner_near, width: inner_far - inner_near };
+  // The bushing rounds every cutout corner to at least its own radius, which
+  // leaves the bit's radius in the workpiece. A larger workpiece radius (a
+  // radiused hinge leaf) grows the cutout corner by the bushing offset.
+  const corner_radius = size.corner_radius === undefined
+    ? bushing_OD / 2
+    : Math.max(bushing_OD / 2, toMm(size.corner_radius) + offset);
+  const cutout_xs = centers.map(center => total_length / 2 + center - cutout_length / 2);
+  const cutout_x = cutout_xs[0];
+  const cutout_y = isLeft
+    ? fence_face + (edge_distance - offset)
+    : fence_face - (edge_distance - offset) - cutout_width;
+  const cutout_end = cutout_xs[cutout_xs.length - 1] + cutout_length;
+
+  // Fixed blocks standing edge_height above the plate: the fence unless it
+  // bolts on, the second fence, and the end stop
+  const fence_tops = [
+    ...(params.fence_type === "adjustable" ? [] : [fence_y]),
+    ...(second_fence_y === null ? [] : [second_fence_y]),
+  ];
+  const blocks: Block[] = fence_tops.map(y => ({ x: 0, y, length: total_length, width: edge_thickness }));
+  let end_stop: Block | null = null;
+  if (params.end_stop !== "none") {
+    // Its face is end_stop_distance from the nearest end of the mortises
+    const distance = toMm(params.end_stop_distance);
+    const face = params.end_stop === "left" ? cutout_x + offset - distance : cutout_end - offset + distance;
+    end_stop = {
+      x: params.end_stop === "left" ? face - edge_thickness : face,
+      y: 0,
+      length: edge_thickness,
+      width: total_width,
+    };
+    blocks.push(end_stop);
+  }
+
+  // An adjustable fence is a separate bar, bolted through a slot near each
+  // end that lets it travel across the plate
+  const fence_slots: Block[] = travel > 0
+    ? [FENCE_BOLT_INSET, total_length - FENCE_BOLT_INSET].map(x => ({
+        x: x - FENCE_BOLT_CLEARANCE / 2,
+        y: fence_y + edge_thickness / 2 - (travel + FENCE_BOLT_CLEARANCE) / 2,
+        length: FENCE_BOLT_CLEARANCE,
+        width: travel + FENCE_BOLT_CLEARANCE,
+      }))
+    : [];
+  const fence_bar: FenceBar | null = travel > 0
+    ? { length: total_length, width: edge_thickness, height: edge_height, holes: [FENCE_BOLT_INSET, total_length - FENCE_BOLT_INSET] }
+    : null;
+
+  // Tilt is given toward the fence, which is on the low-y side for a
+  // left-hand setup
+  const angled = params.tilt_angle || params.splay_angle
+    ? angledBase(isLeft ? params.tilt_angle : -params.tilt_angle, params.splay_angle,
+        [total_length / 2, cutout_y + cutout_width / 2], total_length, total_width)
+    : null;
+
+  const format = (value: Measurement) => formatMeasurement(value, params);
+
+  const looseTenon = params.template_mode === "loose_tenon";
+  const fields = new Set(params.label_fields);
+  const line = (field: LabelField, ...text: string[]) => fields.has(field) ? text : [];
+  const common = [
+    ...line("bushing", `Bushing OD: ${format(params.bushing_OD)}`),
+    ...line("bit", `Bit Dia: ${format(params.bit_diameter)}`),
+  ];
+  let lines: string[];
+  if (looseTenon) {
+    lines = [
+      ...line("size", `Tenon: ${format(params.tenon_thickness)} x ${format(params.tenon_width)} x ${format(params.tenon_length)}`),
+      ...line("depth", `Depth: ${format(size.depth!)}`),
+      ...common,
+      ...line("edge", `Edge Dist: ${format(size.edge_distance)}`),
+      ...line("offset", `Offset: ${format(offsetLength)}`),
+    ];
+  } else if (params.template_mode === "hinge") {
+    lines = [
+      ...line("size",
+        `Hinge: ${params.hinge_size === "custom" ? "custom" : HINGE_CATALOG[params.hinge_size].name}`,
+        `Leaf: ${format(size.length)} x ${format(size.width)}`),
+      ...line("depth", `Depth: ${format(size.depth!)}`),
+      ...line("corners", `Corners: ${size.corner_radius === undefined ? "square (chisel)" : "R " + format(size.corner_radius)}`),
+      ...line("edge", `Setback: ${format(size.edge_distance)}`),
+      ...common,
+      ...line("offset", `Offset: ${format(offsetLength)}`),
+    ];
+  } else {
+    lines = [
+      ...common,
+      ...line("size", `Length: ${format(params.mortise_length)}`, `Width: ${format(params.mortise_width)}`),
+      ...(through ? line("depth", `Depth: ${format(size.depth!)} each face`) : []),
+      ...line("edge", `Edge Dist: ${format(size.edge_distance)}`),
+      ...line("offset", `Offset: ${format(offsetLength)}`),
+    ];
+  }
+  const angles = [
+    ...(params.tilt_angle ? [`tilt ${params.tilt_angle}°`] : []),
+    ...(params.splay_angle ? [`splay ${params.splay_angle}°`] : []),
+    ...(params.mortise_rotation ? [`skew ${params.mortise_rotation}°`] : []),
+  ];
+  if (angles.length > 0) {
+    lines.push(...line("angles", `Angles: ${angles.join(", ")}`));
+  }
+  if (centers.length > 1) {
+    const pitches = centers.slice(1).map((center, i) => center - centers[i]);
+    const uniform = pitches.every(pitch => Math.abs(pitch - pitches[0]) < 0.01);
+    lines.push(...line("spacing", uniform
+      ? `Mortises: ${centers.length} @ ${format(millimetres(pitches[0]))}`
+      : `Mortises: ${centers.length}`));
+  }
+
+  const titles = through
+    ? ["FACE A"]
+    : !looseTenon
+      ? [null]
+      : params.loose_tenon_layout === "pair"
+        ? ["BOARD A", "BOARD B"]
+        : ["BOARD A / B"];
+  const heading = params.label_title ? [params.label_title] : [];
+  const copies = titles.map((title, i) => ({
+    dy: i * (total_width + PAIR_GAP),
+    lines: title ? [...heading, title, ...lines] : [...heading, ...lines],
+    underside_lines: through ? [...heading, "FACE B", ...lines] : [],
+  }));
+
+  // Arrow in the middle of the left-hand extension, its tip just off the
+  // fence's inside face. Skipped when the extension is too short to hold it.
+  let reference_mark: ReferenceMark | null = null;
+  if ((looseTenon || through) && params.reference_marks && cutout_x >= REFERENCE_MARK_SIZE + 4) {
+    const half = REFERENCE_MARK_SIZE / 2;
+    const mark_x = cutout_x / 2;
+    const towardPlate = isLeft ? 1 : -1;
+    const tip_y = (isLeft ? inner.y : inner.y + inner.width) + 2 * towardPlate;
+    const base_y = tip_y + REFERENCE_MARK_SIZE * towardPlate;
+    reference_mark = {
+      points: [[mark_x, tip_y], [mark_x + half, base_y], [mark_x - half, base_y]],
+    };
+  }
+
+  const marks = registrationMarks(params, {
+    total_length, total_width, thickness, fence_y, edge_thickness, edge_height, rise: angled?.rise ?? 0, isLeft, offset, inner,
+    fence_tops, far_fence: double,
+    cutout_xs, cutout_y, cutout_length, cutout_width,
+  });
+
+  // Free parts of the top face, in order of preference: past the last
+  // cutout, before the first, alongside the cutouts away from the fence,
+  // then between neighbouring cutouts
+  const m = LABEL_MARGIN;
+  const open = { y: inner.y + m, width: inner.width - 2 * m };
+  const mounting = mountingFeatures(params, {
+    total_length,
+    total_width,
+    inner,
+    cutouts: cutout_xs.map(x => ({ x, y: cutout_y, length: cutout_length, width: cutout_width })),
+    obstacles: [...fence_slots, ...(end_stop ? [end_stop] : []), ...(edge_below > 0 ? blocks : [])],
+    base_reach: (toMm(params.router_base_diameter) - bushing_OD) / 2,
+  });
+  const before = { x: m, y: open.y, length: cutout_x - 2 * m, width: open.width };
+  if (reference_mark) {
+    // Keep clear of the arrow, which sits against the fence
+    const base_y = reference_mark.points[1][1];
+    const clear = isLeft ? base_y + m : base_y - m;
+    if (isLeft) before.y = clear;
+    before.width = isLeft ? open.y + open.width - clear : clear - open.y;
+  }
+  const regions: LabelRegion[] = [
+    { x: cutout_end + m, y: open.y, length: total_length - cutout_end - 2 * m, width: open.width },
+    before,
+    isLeft
+      ? { x: m, y: cutout_y + cutout_width + m, length: total_length - 2 * m, width: inner_far - cutout_y - cutout_width - 2 * m }
+      : { x: m, y: open.y, length: total_length - 2 * m, width: cutout_y - open.y - m },
+    ...cutout_xs.slice(1).map((x, i) => ({
+      x: cutout_xs[i] + cutout_length + m,
+      y: open.y,
+      length: x - cutout_xs[i] - cutout_length - 2 * m,
+      width: open.width,
+    })),
+  ].filter(region => region.length > 0 && region.width > 0);
+  const keepOut = [
+    ...marks.grooves.filter(groove => groove.z === thickness).map(({ from, to }) => ({
+      x: Math.min(from[0], to[0]) - GROOVE_DEPTH,
+      y: Math.min(from[1], to[1]) - GROOVE_DEPTH,
+      length: Math.abs(to[0] - from[0]) + 2 * GROOVE_DEPTH,
+      width: Math.abs(to[1] - from[1]) + 2 * GROOVE_DEPTH,
+    })),
+    ...marks.notches.map(points => {
+      const xs = points.map(([x]) => x);
+      const ys = points.map(([, y]) => y);
+      return { x: Math.min(...xs), y: Math.min(...ys), length: Math.max(...xs) - Math.min(...xs), width: Math.max(...ys) - Math.min(...ys) };
+    }),
+    ...mounting.screw_holes.map(hole =>
+      ({ x: hole.x - SCREW_HEAD / 2, y: hole.y - SCREW_HEAD / 2, length: SCREW_HEAD, width: SCREW_HEAD })),
+    ...mounting.clamp_slots,
+    ...fence_slots,
+    ...(end_stop ? [end_stop] : []),
+  ];
+  const freeRegions = keepOut.reduce((free, mark) => subtractRegion(free, {
+    x: mark.x - m, y: mark.y - m, length: mark.length + 2 * m, width: mark.width + 2 * m,
+  }), regions);
+  const overall_width = total_width * copies.length + PAIR_GAP * (copies.length - 1);
+  const longest = copies.reduce((a, b) => b.lines.join("").length > a.lines.join("").length ? b : a);
+  const placement = placeLabel(longest.lines, params.label_font, params.label_size, freeRegions);
+
+  // The underside label goes wherever the through cuts and pad pockets
+  // leave room, worked out with the plate turned over
+  let underside_label: TemplateLabel | null = null;
+  if (through) {
+    const underneath = [
+      ...marks.notches.map(points => {
+        const xs = points.map(([x]) => x);
+        const ys = points.map(([, y]) => y);
+        return { x: Math.min(...xs), y: Math.min(...ys), length: Math.max(...xs) - Math.min(...xs), width: Math.max(...ys) - Math.min(...ys) };
+      }),
+      ...[...mounting.screw_holes, ...mounting.pad_pockets].map(hole =>
+        ({ x: hole.x - PAD_DIAMETER / 2, y: hole.y - PAD_DIAMETER / 2, length: PAD_DIAMETER, width: PAD_DIAMETER })),
+      ...mounting.clamp_slots,
+      ...(end_stop ? [end_stop] : []),
+    ];
+    const turnedOver = underneath
+      .reduce((free, area) => subtractRegion(free, {
+        x: area.x - m, y: area.y - m, length: area.length + 2 * m, width: area.width + 2 * m,
+      }), regions)
+      .map(region => ({ ...region, y: total_width - region.y - region.width }));
+    const under = placeLabel(copies[0].underside_lines, params.label_font, params.label_size, turnedOver);
+    underside_label = {
+      ...under,
+      lineSpacing: under.size * LINE_SPACING,
+      font: params.label_font,
+      style: "engrave",
+    };
+  }
+
+  return {
+    total_length,
+    total_width,
+    thickness,
+    engrave_depth: ENGRAVE_DEPTH,
+    edge_height,
+    edge_thickness,
+    fence_y,
+    inner,
+    blocks,
+    edge_below,
+    fence_slots,
+    fence_bar,
+    angled,
+    offset,
+    cutouts: cutout_xs.map(x => ({
+      x: x + (cutout_length - slot_length) / 2,
+      y: cutout_y + (cutout_width - slot_width) / 2,
+      length: slot_length,
+      width: slot_width,
+      radius: corner_radius,
+      ...(skew !== 0 ? { angle: params.mortise_rotation } : {}),
+    })),
+    label: {
+      ...placement,
+      lineSpacing: placement.size * LINE_SPACING,
+      font: params.label_font,
+      style: params.label_style,
+    },
+    underside_label,
+    copies,
+    overall_width,
+    // Adjustable fence bars print beside the plates, one per plate
+    print_width: fence_bar ? overall_width + copies.length * (PAIR_GAP + fence_bar.width) : overall_width,
+    reference_mark,
+    marks,
+    mounting,
+  };
+}
+
+// Thinnest the wedge gets, at its low corner
+const WEDGE_MIN = 1;
+
+function angledBase(tilt: number, splay: number, pivot: [number, number], L: number, W: number): AngledBase {
+  const t = tilt * Math.PI / 180;
+  const s = splay * Math.PI / 180;
+  const [px, py] = pivot;
+  const plate: Array<[number, number]> = [[0, 0], [L, 0], [L, W], [0, W]];
+  // Height of each corner relative to the pivot once the plate is turned
+  const drop = ([x, y]: [number, number]) => -(x - px) * Math.sin(s) + (y - py) * Math.sin(t) * Math.cos(s);
+  const pivot_z = WEDGE_MIN - Math.min(...plate.map(drop));
+  // The router's axis is the plate's normal; move the plate so the axis
+  // through the pivot lands where it would on a flat plate
+  const shift: [number, number] = [pivot_z * Math.tan(s), -pivot_z * Math.tan(t) / Math.cos(s)];
+  const corners = plate.map(([x, y]): [number, number, number] => {
+    const dx = x - px;
+    const dy = y - py;
+    return [
+      px + shift[0] + dx * Math.cos(s) + dy * Math.sin(t) * Math.sin(s),
+      py + shift[1] + dy * Math.cos(t),
+      pivot_z + drop([x, y]),
+    ];
+  });
+  const rise = Math.max(...corners.map(([, , z]) => z));
+  return { tilt, splay, pivot, pivot_z, shift, corners, rise, below: rise / (Math.cos(t) * Math.cos(s)) + 1 };
+}
+
+interface MarkFrame {
+  total_length: number;
+  total_width: number;
+  thickness: number;
+  fence_y: number;
+  edge_thickness: number;
+  edge_height: number;
+  // How far a wedge lifts the plate, and the fences' tops with it
+  rise: number;
+  isLeft: boolean;
+  inner: { y: number; width: number };
+  // Low edge of each fixed fence, and whether one runs along the far side
+  fence_tops: number[];
+  far_fence: boolean;
+  offset: number;
+  cutout_xs: number[];
+  cutout_y: number;
+  cutout_length: number;
+  cutout_width: number;
+}
+
+function registrationMarks(params: MortiseTemplate, frame: MarkFrame): RegistrationMarks {
+  const { total_length: L, total_width: W, thickness, edge_thickness, isLeft, offset, inner } = frame;
+  const fenceTop = frame.rise + thickness + frame.edge_height;
+  // The open top face's edge at the fence, and the edge opposite it: the
+  // plate edge, or the second fence
+  const fenceFace = isLeft ? inner.y : inner.y + inner.width;
+  const farEdge = isLeft ? inner.y + inner.width : inner.y;
+  const inward = isLeft ? -1 : 1; // from the far edge into the plate
+  const centers = frame.cutout_xs.map(x => x + frame.cutout_length / 2);
+  const center_y = frame.cutout_y + frame.cutout_width / 2;
+
+  const grooves: Groove[] = [];
+  const notches: Array<Array<[number, number]>> = [];
+
+  if (params.centerlines) {
+    grooves.push({ from: [0, center_y], to: [L, center_y], z: thickness });
+    for (const x of centers) {
+      grooves.push({ from: [x, fenceFace], to: [x, farEdge], z: thickness });
+      for (const y of frame.fence_tops) {
+        grooves.push({ from: [x, y], to: [x, y + edge_thickness], z: fenceTop });
+      }
+    }
+  }
+
+  if (params.end_ticks) {
+    // Where the router stops in the workpiece, not the edge of the cutout
+    const ends = frame.cutout_xs.flatMap(x => [x + offset, x + frame.cutout_length - offset]);
+    for (const x of ends) {
+      if (!frame.far_fence) {
+        grooves.push({ from: [x, farEdge], to: [x, farEdge + inward * TICK_LENGTH], z: thickness });
+      }
+      for (const y of frame.fence_tops) {
+        grooves.push({ from: [x, y], to: [x, y + edge_thickness], z: fenceTop });
+      }
+    }
+  }
+
+  if (params.sight_notches) {
+    // No deeper than half the plate left beside or past the cutouts
+    const farWall = isLeft ? W - frame.cutout_y - frame.cutout_width : frame.cutout_y;
+    const sideDepth = frame.far_fence ? edge_thickness / 3 : Math.min(NOTCH_DEPTH, farWall / 2);
+    const plateEdge = isLeft ? W : 0;
+    const endDepth = Math.min(NOTCH_DEPTH, frame.cutout_xs[0] / 2);
+    if (sideDepth >= 1) {
+      for (const x of centers) {
+        notches.push([[x - sideDepth, plateEdge], [x + sideDepth, plateEdge], [x, plateEdge + inward * sideDepth]]);
+      }
+    }
+    if (endDepth >= 1) {
+      notches.push([[0, center_y - endDepth], [0, center_y + endDepth], [endDepth, center_y]]);
+      notches.push([[L, center_y - endDepth], [L, center_y + endDepth], [L - endDepth, center_y]]);
+    }
+    // And through the outside face of the fence, when it is part of the plate
+    const fenceOuter = isLeft ? 0 : W;
+    const fenceDepth = edge_thickness / 3;
+    for (const x of params.fence_type === "adjustable" ? [] : centers) {
+      notches.push([[x - fenceDepth, fenceOuter], [x + fenceDepth, fenceOuter], [x, fenceOuter - inward * fenceDepth]]);
+    }
+  }
+
+  const ruler = params.fence_ruler && params.fence_type !== "adjustable" ? fenceRuler(params, frame) : null;
+  return { grooves, notches, ruler };
+}
+
+// Scale along the top of the fence, zeroed on the middle of the mortise
+// group: 1/8" ticks numbered every inch, or 2 mm ticks numbered every 10 mm
+function fenceRuler(params: MortiseTemplate, frame: MarkFrame): FenceRuler {
+  const { total_length: L, fence_y, edge_thickness, isLeft } = frame;
+  const imperial = params.unit_system === "imperial";
+  const step = imperial ? INCH / 8 : 2;
+  const perMajor = imperial ? 8 : 5;
+  const perMedium = imperial ? 4 : 5;
+  const zero = L / 2;
+  // Ticks hang from the fence's inside edge; numbers sit along the outside
+  const inner = isLeft ? fence_y + edge_thickness : fence_y;
+  const outer = isLeft ? fence_y : fence_y + edge_thickness;
+  const towardOuter = isLeft ? -1 : 1;
+
+  const ticks: RulerTick[] = [];
+  const numbers: FenceRuler["numbers"] = [];
+  const count = Math.floor((zero - 1) / step);
+  for (let i = -count; i <= count; i++) {
+    const x = zero + i * step;
+    const major = i % perMajor === 0;
+    const medium = i % perMedium === 0;
+    const length = edge_thickness * (major ? 0.45 : medium ? 0.32 : 0.2);
+    ticks.push({ x: x - 0.3, y: towardOuter > 0 ? inner : inner - length, length: 0.6, width: length });
+    if (major) {
+      numbers.push({
+        x,
+        y: towardOuter > 0 ? outer - 0.8 - RULER_TEXT_SIZE : outer + 0.8,
+        text: String(Math.abs(imperial ? i / perMajor : i * step)),
+      });
+    }
+  }
+  return { ticks, numbers, size: RULER_TEXT_SIZE };
+}
+
+// Everything standing above the plate, seen from above: the fixed blocks,
+// and an adjustable fence bar where edge_distance sets it
+export function fenceOutlines(layout: TemplateLayout): Block[] {
+  const bar = layout.fence_bar
+    ? [{ x: 0, y: layout.fence_y, length: layout.total_length, width: layout.edge_thickness }]
+    : [];
+  return [...bar, ...layout.blocks];
+}
+
+// Thinnest material left around the cutouts, in mm
+export interface PlateWalls {
+  // Between the cutouts and the plate edge opposite the fence
+  beside: number;
+  // Past the outermost cutouts at either end
+  ends: number;
+  // Between neighbouring cutouts; Infinity with a single mortise
+  between: number;
+  // Fence left where a cutout runs into it (a hinge mortise with no setback)
+  fence: number;
+}
+
+// Extent of a cutout in plan, allowing for its skew
+export function cutoutBounds(rect: RoundedRect): LabelRegion {
+  const angle = (rect.angle ?? 0) * Math.PI / 180;
+  const length = rect.length * Math.abs(Math.cos(angle)) + rect.width * Math.abs(Math.sin(angle));
+  const width = rect.length * Math.abs(Math.sin(angle)) + rect.width * Math.abs(Math.cos(angle));
+  return {
+    x: rect.x + (rect.length - length) / 2,
+    y: rect.y + (rect.width - width) / 2,
+    length,
+    width,
+  };
+}
+
+export function plateWalls(layout: TemplateLayout): PlateWalls {
+  const { total_length, total_width, edge_thickness, fence_y } = layout;
+  const cutouts = layout.cutouts.map(cutoutBounds);
+  // With no cutouts the whole plate is wall
+  if (cutouts.length === 0) {
+    return { beside: total_width, ends: total_length, between: Infinity, fence: edge_thickness };
+  }
+  const [first] = cutouts;
+  const last = cutouts[cutouts.length - 1];
+  const fenceBelow = fence_y < first.y;
+  const nearFence = fenceBelow ? first.y - fence_y : fence_y + edge_thickness - (first.y + first.width);
+  const farSide = fenceBelow ? total_width - (first.y + first.width) : first.y;
+
+  return {
+    beside: farSide,
+    ends: Math.min(first.x, total_length - (last.x + last.length)),
+    between: Math.min(...cutouts.slice(1).map((cutout, i) => cutout.x - (cutouts[i].x + cutouts[i].length))),
+    fence: Math.min(edge_thickness, nearFence),
+  };
+}
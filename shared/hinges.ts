@@ -0,0 +1,24 @@
+// Common full-mortise butt hinges. Leaf width is the part of the leaf set into
+// the door edge, measured from the door face; depth is the leaf thickness.
+// Figures are typical for residential hinges; check your hardware and switch
+// to a custom size if it differs.
+
+export const HINGE_SIZES = ["2.5x2.5", "3x3", "3.5x3.5", "4x4", "4.5x4.5"] as const;
+
+export type HingeSize = typeof HINGE_SIZES[number];
+
+export interface HingeSpec {
+  name: string;
+  leaf_length_in: number;
+  leaf_width_in: number;
+  depth_in: number;
+  corner_radius_in: number;
+}
+
+export const HINGE_CATALOG: Record<HingeSize, HingeSpec> = {
+  "2.5x2.5": { name: '2-1/2" x 2-1/2"', leaf_length_in: 2.5, leaf_width_in: 1.125, depth_in: 0.075, corner_radius_in: 0.25 },
+  "3x3": { name: '3" x 3"', leaf_length_in: 3, leaf_width_in: 1.25, depth_in: 0.085, corner_radius_in: 0.25 },
+  "3.5x3.5": { name: '3-1/2" x 3-1/2"', leaf_length_in: 3.5, leaf_width_in: 1.375, depth_in: 0.095, corner_radius_in: 0.25 },
+  "4x4": { name: '4" x 4"', leaf_length_in: 4, leaf_width_in: 1.625, depth_in: 0.12, corner_radius_in: 0.625 },
+  "4.5x4.5": { name: '4-1/2" x 4-1/2"', leaf_length_in: 4.5, leaf_width_in: 1.875, depth_in: 0.134, corner_radius_in: 0.25 },
+};
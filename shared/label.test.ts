@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { LINE_SPACING, lineLength, placeLabel, subtractRegion, type LabelRegion } from "./label";
+
+const plate: LabelRegion = { x: 0, y: 0, length: 100, width: 50 };
+
+describe("subtractRegion", () => {
+  it("leaves the largest rectangles on each side of an obstacle", () => {
+    expect(subtractRegion([plate], { x: 40, y: 20, length: 20, width: 10 })).toEqual([
+      { x: 0, y: 0, length: 40, width: 50 },
+      { x: 60, y: 0, length: 40, width: 50 },
+      { x: 0, y: 0, length: 100, width: 20 },
+      { x: 0, y: 30, length: 100, width: 20 },
+    ]);
+  });
+
+  it("drops the sides an obstacle reaches past", () => {
+    expect(subtractRegion([plate], { x: -10, y: -10, length: 60, width: 100 })).toEqual([
+      { x: 50, y: 0, length: 50, width: 50 },
+    ]);
+  });
+
+  it("keeps regions the obstacle misses, or only touches", () => {
+    expect(subtractRegion([plate], { x: 100, y: 0, length: 10, width: 10 })).toEqual([plate]);
+  });
+
+  it("removes a region the obstacle covers", () => {
+    expect(subtractRegion([plate], { x: -1, y: -1, length: 102, width: 52 })).toEqual([]);
+  });
+});
+
+describe("placeLabel", () => {
+  const lines = ["1-3/4 x 3/8", "BIT 1/4"];
+  const font = "Liberation Sans";
+  const length = lineLength(lines[0], font);
+
+  it("places the label at its size in the first region that holds it", () => {
+    const small: LabelRegion = { x: 0, y: 0, length: 5, width: 5 };
+    const roomy: LabelRegion = { x: 10, y: 20, length: 100, width: 30 };
+    const placement = placeLabel(lines, font, 3, [small, roomy]);
+    expect(placement.size).toBe(3);
+    expect(placement.x).toBe(roomy.x);
+    // Centered across the region, first baseline one text size below the top
+    const blockWidth = (LINE_SPACING + 1.25) * 3;
+    expect(placement.y).toBeCloseTo(roomy.y + (roomy.width + blockWidth) / 2 - 3, 9);
+  });
+
+  it("shrinks the label to the largest size any region allows", () => {
+    const narrow: LabelRegion = { x: 0, y: 0, length: length * 2, width: 20 };
+    const placement = placeLabel(lines, font, 6, [narrow]);
+    expect(placement.size).toBe(2);
+    expect(placement.size * length).toBeLessThanOrEqual(narrow.length);
+
+    const short: LabelRegion = { x: 0, y: 0, length: length * 1.234567, width: 20 };
+    expect(placeLabel(lines, font, 6, [short]).size).toBe(1.23);
+  });
+
+  it("picks the region that allows the largest text when none holds it at full size", () => {
+    const regions: LabelRegion[] = [
+      { x: 0, y: 0, length: length, width: 20 },
+      { x: 50, y: 0, length: length * 2.5, width: 20 },
+      { x: 90, y: 0, length: length * 1.5, width: 20 },
+    ];
+    expect(placeLabel(lines, font, 6, regions)).toMatchObject({ x: 50, size: 2.5 });
+  });
+
+  it("returns size 0 when no region fits", () => {
+    expect(placeLabel(lines, font, 3, [])).toEqual({ x: 0, y: 0, size: 0 });
+    expect(placeLabel(lines, font, 3, [{ x: 0, y: 0, length: 0, width: 10 }])).toEqual({ x: 0, y: 0, size: 0 });
+  });
+});
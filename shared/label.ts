@@ -0,0 +1,100 @@
+// Engraved label options and placement. The label is laid out from an
+// estimate of the text's extent, since the real glyph outlines are only known
+// to OpenSCAD; the estimates err on the wide side so the text stays clear.
+
+// Lines the label can carry, in the order they may appear
+export const LABEL_FIELDS = ["size", "depth", "corners", "angles", "bushing", "bit", "edge", "offset", "spacing"] as const;
+export type LabelField = typeof LABEL_FIELDS[number];
+
+// Fonts that ship with OpenSCAD on every platform
+export const LABEL_FONTS = ["Liberation Sans", "Liberation Sans:style=Bold", "Liberation Serif", "Liberation Mono"] as const;
+export type LabelFont = typeof LABEL_FONTS[number];
+
+export const LABEL_STYLES = ["engrave", "emboss"] as const;
+export type LabelStyle = typeof LABEL_STYLES[number];
+
+// Widest average character advance for each font, relative to OpenSCAD's
+// text size (roughly the cap height); digits and capitals dominate labels
+const CHARACTER_ADVANCE: Record<LabelFont, number> = {
+  "Liberation Sans": 0.8,
+  "Liberation Sans:style=Bold": 0.85,
+  "Liberation Serif": 0.75,
+  "Liberation Mono": 0.84,
+};
+
+// Baseline to baseline, and the descender below the last baseline
+export const LINE_SPACING = 5 / 3;
+const DESCENT = 0.25;
+
+// Clearance between the text and any edge, cutout or fence
+export const LABEL_MARGIN = 3;
+
+// Free area of the plate, x along the fence and y across it
+export interface LabelRegion {
+  x: number;
+  y: number;
+  length: number;
+  width: number;
+}
+
+// Cut an obstacle out of the free regions, leaving the largest rectangles
+// to each side of it
+export function subtractRegion(regions: LabelRegion[], obstacle: LabelRegion): LabelRegion[] {
+  return regions.flatMap(region => {
+    const x1 = Math.max(region.x, obstacle.x);
+    const x2 = Math.min(region.x + region.length, obstacle.x + obstacle.length);
+    const y1 = Math.max(region.y, obstacle.y);
+    const y2 = Math.min(region.y + region.width, obstacle.y + obstacle.width);
+    if (x1 >= x2 || y1 >= y2) return [region];
+    return [
+      { x: region.x, y: region.y, length: x1 - region.x, width: region.width },
+      { x: x2, y: region.y, length: region.x + region.length - x2, width: region.width },
+      { x: region.x, y: region.y, length: region.length, width: y1 - region.y },
+      { x: region.x, y: y2, length: region.length, width: region.y + region.width - y2 },
+    ].filter(part => part.length > 0 && part.width > 0);
+  });
+}
+
+export interface LabelPlacement {
+  x: number;
+  // First baseline
+  y: number;
+  size: number;
+}
+
+// Estimated length of one line at text size 1
+export function lineLength(line: string, font: LabelFont): number {
+  return line.length * CHARACTER_ADVANCE[font];
+}
+
+// Extent of a block of lines at text size 1
+function blockExtent(lines: string[], font: LabelFont) {
+  return {
+    length: Math.max(0, ...lines.map(line => lineLength(line, font))),
+    width: Math.max(0, lines.length - 1) * LINE_SPACING + 1 + DESCENT,
+  };
+}
+
+// Put the label in the first region that holds it at the requested size, or
+// shrink it to the largest size any region allows. The block is centered
+// across the region and starts at its near end.
+export function placeLabel(lines: string[], font: LabelFont, size: number, regions: LabelRegion[]): LabelPlacement {
+  const extent = blockExtent(lines, font);
+  const fit = (region: LabelRegion) => Math.min(
+    extent.length > 0 ? region.length / extent.length : Infinity,
+    region.width / extent.width,
+  );
+
+  let best: { region: LabelRegion; size: number } | null = null;
+  for (const region of regions) {
+    const regionSize = Math.min(size, fit(region));
+    if (!best || regionSize > best.size) best = { region, size: regionSize };
+    if (regionSize >= size) break;
+  }
+  if (!best || best.size <= 0) return { x: 0, y: 0, size: 0 };
+
+  const { region } = best;
+  const labelSize = Math.floor(best.size * 100) / 100;
+  const top = region.y + (region.width + extent.width * labelSize) / 2;
+  return { x: region.x, y: top - labelSize, size: labelSize };
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { isLegacyParams, upgradeLegacyParams } from "./legacy";
+import { mortiseTemplateSchema } from "./schema";
+import { INCH } from "./units";
+
+// What the original client sent: every length in inches, metric values
+// divided by 25.4 first
+const legacyMetric = {
+  unit_system: "metric",
+  bushing_OD_in: 10 / INCH,
+  bit_diameter_in: 6.35 / INCH,
+  mortise_length_in: 44.45 / INCH,
+  mortise_width_in: 8 / INCH,
+  edge_distance_in: 7.5 / INCH,
+  edge_position: "left",
+  extension_length_in: 60 / INCH,
+  extension_width_in: 60 / INCH,
+  template_thickness_in: 6 / INCH,
+  mortise_offsets_in: [0, 75.5 / INCH],
+};
+
+const legacyImperial = {
+  unit_system: "imperial",
+  bushing_OD_in: 0.3125,
+  bit_diameter_in: 0.25,
+  mortise_length_in: 1.75,
+  mortise_width_in: 0.375,
+  edge_distance_in: 0.25,
+  edge_position: "right",
+  extension_length_in: 3,
+  extension_width_in: 3,
+  template_thickness_in: 0.25,
+  hinge_depth_in: 0.095,
+};
+
+describe("upgradeLegacyParams", () => {
+  it("brings metric lengths back to the millimetres that were typed", () => {
+    const upgraded = upgradeLegacyParams(legacyMetric) as Record<string, unknown>;
+    expect(upgraded).toMatchObject({
+      unit_system: "metric",
+      edge_position: "left",
+      bushing_OD: { value: 10, unit: "mm" },
+      bit_diameter: { value: 6.35, unit: "mm" },
+      mortise_length: { value: 44.45, unit: "mm" },
+      mortise_width: { value: 8, unit: "mm" },
+      edge_distance: { value: 7.5, unit: "mm" },
+      template_thickness: { value: 6, unit: "mm" },
+      mortise_offsets: [{ value: 0, unit: "mm" }, { value: 75.5, unit: "mm" }],
+    });
+    expect(Object.keys(upgraded).some(key => key.endsWith("_in"))).toBe(false);
+  });
+
+  it("keeps imperial lengths exactly as sent", () => {
+    const upgraded = upgradeLegacyParams(legacyImperial);
+    expect(upgraded).toMatchObject({
+      bushing_OD: { value: 0.3125, unit: "in" },
+      mortise_length: { value: 1.75, unit: "in" },
+      hinge_depth: { value: 0.095, unit: "in" },
+    });
+  });
+
+  it("produces parameters the current schema accepts", () => {
+    for (const legacy of [legacyMetric, legacyImperial]) {
+      expect(mortiseTemplateSchema.safeParse(upgradeLegacyParams(legacy)).success).toBe(true);
+    }
+  });
+
+  it("passes current payloads through untouched", () => {
+    const current = { unit_system: "metric", mortise_length: { value: 44.45, unit: "mm" } };
+    expect(isLegacyParams(current)).toBe(false);
+    expect(upgradeLegacyParams(current)).toBe(current);
+    expect(upgradeLegacyParams(null)).toBe(null);
+  });
+
+  it("leaves values that aren't numbers for the schema to reject", () => {
+    expect(upgradeLegacyParams({ unit_system: "imperial", mortise_length_in: "1.75" }))
+      .toEqual({ unit_system: "imperial", mortise_length: "1.75" });
+  });
+});
+
+describe("migrations/0001_native_units.sql", () => {
+  const sql = readFileSync(path.resolve(__dirname, "../migrations/0001_native_units.sql"), "utf8");
+  const columns = ["bushing_od", "bit_diameter", "mortise_length", "mortise_width", "edge_distance",
+    "extension_length", "extension_width", "template_thickness"];
+
+  it("converts every metric length column back to millimetres at 0.01 mm", () => {
+    for (const column of columns) {
+      expect(sql).toContain(`"${column}" = round("${column}" * 25.4, 2)`);
+    }
+    expect(sql).toMatch(/WHERE "unit_system" = 'metric';/);
+  });
+
+  // Metric rows were saved as inches to 4 places; the migration's rounding
+  // must land back on what was typed, to 0.01 mm
+  it("recovers typed millimetres from inches saved to 4 places", () => {
+    const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+    const missed: number[] = [];
+    for (let hundredths = 1; hundredths <= 30000; hundredths++) {
+      const typed = hundredths / 100;
+      const saved = round(typed / INCH, 4);
+      if (Math.abs(round(saved * INCH, 2) - typed) > 1e-9) missed.push(typed);
+    }
+    expect(missed).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import { INCH, inches, millimetres, type Measurement } from "./units";
+
+// Compatibility with the original parameter payload, where every length was a
+// bare number of inches in a `*_in` field, even for metric templates (the
+// client divided millimetres by 25.4 before sending them).
+
+const LEGACY_LENGTH_FIELDS: Record<string, string> = {
+  bushing_OD_in: "bushing_OD",
+  bit_diameter_in: "bit_diameter",
+  mortise_length_in: "mortise_length",
+  mortise_width_in: "mortise_width",
+  edge_distance_in: "edge_distance",
+  extension_length_in: "extension_length",
+  extension_width_in: "extension_width",
+  template_thickness_in: "template_thickness",
+  mortise_spacing_in: "mortise_spacing",
+  mortise_span_in: "mortise_span",
+  mortise_offsets_in: "mortise_offsets",
+  tenon_thickness_in: "tenon_thickness",
+  tenon_width_in: "tenon_width",
+  tenon_length_in: "tenon_length",
+  depth_allowance_in: "depth_allowance",
+  hinge_leaf_length_in: "hinge_leaf_length",
+  hinge_leaf_width_in: "hinge_leaf_width",
+  hinge_depth_in: "hinge_depth",
+  hinge_corner_radius_in: "hinge_corner_radius",
+  hinge_setback_in: "hinge_setback",
+};
+
+export function isLegacyParams(body: unknown): boolean {
+  return !!body && typeof body === "object" &&
+    Object.keys(body).some(key => key in LEGACY_LENGTH_FIELDS);
+}
+
+// Rewrite a legacy payload into the unit-aware shape; anything else passes
+// through untouched. Metric values go back to millimetres, rounded to 0.1 µm
+// to undo the float noise of the client's mm -> inch division.
+export function upgradeLegacyParams(body: unknown): unknown {
+  if (!isLegacyParams(body)) return body;
+  const legacy = body as Record<string, unknown>;
+  const metric = legacy.unit_system === "metric";
+  const toLength = (value: unknown): Measurement | unknown => {
+    if (typeof value !== "number") return value;
+    return metric ? millimetres(Number((value * INCH).toFixed(4))) : inches(value);
+  };
+
+  const upgraded: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(legacy)) {
+    const field = LEGACY_LENGTH_FIELDS[key];
+    if (!field) {
+      upgraded[key] = value;
+    } else {
+      upgraded[field] = Array.isArray(value) ? value.map(toLength) : toLength(value);
+    }
+  }
+  return upgraded;
+}
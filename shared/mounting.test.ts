@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { type LabelRegion } from "./label";
+import { CLAMP_SLOT_LENGTH, CLAMP_SLOT_WIDTH, PAD_DIAMETER, SCREW_HEAD, mountingFeatures, type MountingFrame, type MountingHole } from "./mounting";
+
+const all = { screw_holes: true, clamp_slots: true, pad_pockets: true };
+
+// A 200 x 120 plate with the fence along y = 0 and one cutout in the middle
+const frame: MountingFrame = {
+  total_length: 200,
+  total_width: 120,
+  inner: { y: 10, width: 110 },
+  cutouts: [{ x: 80, y: 55, length: 40, width: 10 }],
+  obstacles: [],
+  base_reach: 40,
+};
+
+const grow = (rect: LabelRegion, by: number): LabelRegion =>
+  ({ x: rect.x - by, y: rect.y - by, length: rect.length + 2 * by, width: rect.width + 2 * by });
+
+// How far a point is from a rectangle; 0 inside it
+function distance(point: MountingHole, rect: LabelRegion): number {
+  const dx = Math.max(rect.x - point.x, 0, point.x - (rect.x + rect.length));
+  const dy = Math.max(rect.y - point.y, 0, point.y - (rect.y + rect.width));
+  return Math.hypot(dx, dy);
+}
+
+const overlaps = (a: LabelRegion, b: LabelRegion) =>
+  a.x < b.x + b.length && b.x < a.x + a.length && a.y < b.y + b.width && b.y < a.y + a.width;
+
+const inside = (rect: LabelRegion, outer: LabelRegion) =>
+  rect.x >= outer.x && rect.y >= outer.y && rect.x + rect.length <= outer.x + outer.length && rect.y + rect.width <= outer.y + outer.width;
+
+describe("mountingFeatures", () => {
+  const features = mountingFeatures(all, frame);
+  const sweeps = frame.cutouts.map(cutout => grow(cutout, frame.base_reach));
+  const top = { x: 0, y: frame.inner.y, length: frame.total_length, width: frame.inner.width };
+
+  it("places a screw hole near each corner, clear of the router base's sweep", () => {
+    expect(features.screw_holes).toHaveLength(4);
+    for (const hole of features.screw_holes) {
+      for (const sweep of sweeps) expect(distance(hole, sweep)).toBeGreaterThanOrEqual(SCREW_HEAD / 2);
+      expect(inside(grow({ x: hole.x, y: hole.y, length: 0, width: 0 }, SCREW_HEAD / 2), top)).toBe(true);
+    }
+  });
+
+  it("puts a clamp slot at each end, clear of the router base's sweep", () => {
+    expect(features.clamp_slots).toHaveLength(2);
+    for (const slot of features.clamp_slots) {
+      expect(slot).toMatchObject({ length: CLAMP_SLOT_WIDTH, width: CLAMP_SLOT_LENGTH });
+      for (const sweep of sweeps) expect(overlaps(slot, sweep)).toBe(false);
+      expect(inside(slot, top)).toBe(true);
+    }
+    const [left, right] = [...features.clamp_slots].sort((a, b) => a.x - b.x);
+    expect(left.x).toBeLessThan(frame.cutouts[0].x);
+    expect(right.x).toBeGreaterThan(frame.cutouts[0].x + frame.cutouts[0].length);
+  });
+
+  it("keeps screw holes and slots apart", () => {
+    for (const hole of features.screw_holes) {
+      for (const slot of features.clamp_slots) expect(distance(hole, slot)).toBeGreaterThanOrEqual(SCREW_HEAD / 2);
+    }
+  });
+
+  it("puts pad pockets underneath, clear of the cutouts and everything through the plate", () => {
+    expect(features.pad_pockets.length).toBeGreaterThan(0);
+    const through = [
+      ...frame.cutouts,
+      ...features.clamp_slots,
+      ...features.screw_holes.map(hole => grow({ x: hole.x, y: hole.y, length: 0, width: 0 }, SCREW_HEAD / 2)),
+    ];
+    for (const pad of features.pad_pockets) {
+      for (const rect of through) expect(distance(pad, rect)).toBeGreaterThanOrEqual(PAD_DIAMETER / 2);
+    }
+  });
+
+  it("leaves out what doesn't fit outside a router base covering the plate", () => {
+    const covered = mountingFeatures(all, { ...frame, base_reach: 200 });
+    expect(covered.screw_holes).toEqual([]);
+    expect(covered.clamp_slots).toEqual([]);
+    // Pads go under the plate, where the router base doesn't reach
+    expect(covered.pad_pockets.length).toBeGreaterThan(0);
+    for (const pad of covered.pad_pockets) {
+      expect(distance(pad, frame.cutouts[0])).toBeGreaterThanOrEqual(PAD_DIAMETER / 2);
+    }
+  });
+
+  it("keeps clear of the other obstacles", () => {
+    const label: LabelRegion = { x: 0, y: 90, length: 200, width: 30 };
+    const withLabel = mountingFeatures(all, { ...frame, obstacles: [label] });
+    for (const hole of [...withLabel.screw_holes, ...withLabel.pad_pockets]) {
+      expect(distance(hole, label)).toBeGreaterThan(0);
+    }
+    for (const slot of withLabel.clamp_slots) expect(overlaps(slot, label)).toBe(false);
+  });
+
+  it("adds only what is asked for", () => {
+    expect(mountingFeatures({ screw_holes: false, clamp_slots: false, pad_pockets: false }, frame))
+      .toEqual({ screw_holes: [], clamp_slots: [], pad_pockets: [] });
+  });
+});
@@ -0,0 +1,134 @@
+import { subtractRegion, type LabelRegion } from "./label";
+
+// Features for fixing a template to the workpiece: countersunk screw holes
+// and clamp slots through the plate, and pockets under it for adhesive
+// rubber pads. Screws and slots stay out from under the router base, which
+// sweeps the cutout grown by the distance from bushing to base edge; pads
+// only need to clear the cutouts.
+
+// #8 wood screw: shank clearance and 90 degree countersunk head
+export const SCREW_CLEARANCE = 4.5;
+export const SCREW_HEAD = 9;
+// Long enough to slide over a clamp's screw or a 5/16" hold-down bolt
+export const CLAMP_SLOT_WIDTH = 8.5;
+export const CLAMP_SLOT_LENGTH = 25;
+// 1/2" round bumper pads, recessed so they stand proud by about 1 mm
+export const PAD_DIAMETER = 13;
+export const PAD_POCKET_DEPTH = 0.8;
+
+// Clearance from edges, the fence, cutouts and each other
+const MOUNTING_MARGIN = 3;
+
+export interface MountingHole {
+  x: number;
+  y: number;
+}
+
+// A clamp slot, running across the plate
+export interface ClampSlot {
+  x: number;
+  y: number;
+  length: number;
+  width: number;
+}
+
+export interface MountingFeatures {
+  screw_holes: MountingHole[];
+  clamp_slots: ClampSlot[];
+  pad_pockets: MountingHole[];
+}
+
+export interface MountingOptions {
+  screw_holes: boolean;
+  clamp_slots: boolean;
+  pad_pockets: boolean;
+}
+
+export interface MountingFrame {
+  total_length: number;
+  total_width: number;
+  // The plate's top face between the fence and the far edge
+  inner: { y: number; width: number };
+  cutouts: LabelRegion[];
+  // Anything else to stay clear of, on top and underneath
+  obstacles: LabelRegion[];
+  // How far past the cutouts the router base reaches
+  base_reach: number;
+}
+
+const grow = (rect: LabelRegion, by: number): LabelRegion =>
+  ({ x: rect.x - by, y: rect.y - by, length: rect.length + 2 * by, width: rect.width + 2 * by });
+
+// Points where a circle of the given radius fits in the free regions, as
+// near as possible to each corner of the plate, no two closer than `apart`
+function cornerPoints(regions: LabelRegion[], radius: number, apart: number, L: number, W: number): MountingHole[] {
+  const candidates = regions
+    .filter(region => region.length >= 2 * radius && region.width >= 2 * radius)
+    .flatMap(region => {
+      const xs = [region.x + radius, region.x + region.length - radius];
+      const ys = [region.y + radius, region.y + region.width - radius];
+      return xs.flatMap(x => ys.map(y => ({ x, y })));
+    });
+
+  const chosen: MountingHole[] = [];
+  for (const [cx, cy] of [[0, 0], [L, 0], [0, W], [L, W]]) {
+    const open = candidates.filter(point => chosen.every(other => Math.hypot(point.x - other.x, point.y - other.y) >= apart));
+    if (open.length === 0) break;
+    chosen.push(open.reduce((best, point) =>
+      Math.hypot(point.x - cx, point.y - cy) < Math.hypot(best.x - cx, best.y - cy) ? point : best));
+  }
+  return chosen;
+}
+
+export function mountingFeatures(options: MountingOptions, frame: MountingFrame): MountingFeatures {
+  const { total_length: L, total_width: W, inner } = frame;
+  const m = MOUNTING_MARGIN;
+  const underBase = [
+    ...frame.cutouts.map(cutout => grow(cutout, frame.base_reach + m)),
+    ...frame.obstacles.map(obstacle => grow(obstacle, m)),
+  ];
+  let top = underBase.reduce(
+    (free, area) => subtractRegion(free, area),
+    [{ x: m, y: inner.y + m, length: L - 2 * m, width: inner.width - 2 * m }],
+  );
+
+  // One slot in from each end of the plate, centered across it where it fits
+  const clamp_slots: ClampSlot[] = [];
+  if (options.clamp_slots) {
+    const fits = top.filter(region => region.length >= CLAMP_SLOT_WIDTH && region.width >= CLAMP_SLOT_LENGTH);
+    const ends = fits.length === 0 ? [] : [
+      fits.reduce((a, b) => b.x < a.x ? b : a),
+      fits.reduce((a, b) => b.x + b.length > a.x + a.length ? b : a),
+    ];
+    ends.forEach((region, i) => {
+      const slot = {
+        x: i === 0 ? region.x : region.x + region.length - CLAMP_SLOT_WIDTH,
+        y: region.y + (region.width - CLAMP_SLOT_LENGTH) / 2,
+        length: CLAMP_SLOT_WIDTH,
+        width: CLAMP_SLOT_LENGTH,
+      };
+      if (clamp_slots.some(other => Math.abs(other.x - slot.x) < CLAMP_SLOT_WIDTH + m)) return;
+      clamp_slots.push(slot);
+      top = subtractRegion(top, grow(slot, m));
+    });
+  }
+
+  const screw_holes = options.screw_holes
+    ? cornerPoints(top, SCREW_HEAD / 2, SCREW_HEAD * 3, L, W)
+    : [];
+
+  // The underside is flat all over, fence included
+  let bottom: LabelRegion[] = [{ x: m, y: m, length: L - 2 * m, width: W - 2 * m }];
+  const through = [
+    ...frame.cutouts,
+    ...frame.obstacles,
+    ...clamp_slots,
+    ...screw_holes.map(hole => ({ x: hole.x - SCREW_HEAD / 2, y: hole.y - SCREW_HEAD / 2, length: SCREW_HEAD, width: SCREW_HEAD })),
+  ];
+  bottom = through.reduce((free, area) => subtractRegion(free, grow(area, m)), bottom);
+  const pad_pockets = options.pad_pockets
+    ? cornerPoints(bottom, PAD_DIAMETER / 2, PAD_DIAMETER * 2, L, W)
+    : [];
+
+  return { screw_holes, clamp_slots, pad_pockets };
+}
@@ -1,46 +1,224 @@
 import { z } from "zod";
-import { pgTable, serial, decimal, text, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, serial, decimal, text, timestamp, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
+import { HINGE_SIZES } from "./hinges";
+import { checkTemplateRules } from "./validation";
+import { inches, lengthSchema } from "./units";
+import { FRACTION_DENOMINATORS, FRACTION_STYLES, type FractionDenominator } from "./format";
+import { LABEL_FIELDS, LABEL_FONTS, LABEL_STYLES } from "./label";
 
-// Schema for mortise template parameters
+// Schema for mortise template parameters. Every length is a value plus its
+// unit (see ./units); ranges are given in inches.
 export const mortiseTemplateSchema = z.object({
   unit_system: z.enum(["imperial", "metric"]),
-  bushing_OD_in: z.number().min(0.1).max(50),
-  bit_diameter_in: z.number().min(0.1).max(50),
-  mortise_length_in: z.number().min(0.1).max(250),
-  mortise_width_in: z.number().min(0.1).max(250),
-  edge_distance_in: z.number().min(0.1).max(125),
+  bushing_OD: lengthSchema(0.1, 50),
+  bit_diameter: lengthSchema(0.1, 50),
+  mortise_length: lengthSchema(0.1, 250),
+  mortise_width: lengthSchema(0.1, 250),
+  edge_distance: lengthSchema(0.1, 125),
   edge_position: z.enum(["left", "right"]),
-  extension_length_in: z.number().min(0.1).max(250),
-  extension_width_in: z.number().min(0.1).max(250),
-  template_thickness_in: z.number().min(0.1).max(2),
+  extension_length: lengthSchema(0.1, 250),
+  extension_width: lengthSchema(0.1, 250),
+  template_thickness: lengthSchema(0.1, 2),
+
+  // Several mortises along the fence. "centered" spaces them mortise_spacing
+  // apart (center to center) about the template's middle, "equal" leaves
+  // equal gaps between them and the ends of mortise_span, and "explicit"
+  // places them at the given center positions.
+  mortise_count: z.number().int().min(1).max(8).default(1),
+  spacing_mode: z.enum(["centered", "equal", "explicit"]).default("centered"),
+  mortise_spacing: lengthSchema(0.1, 24).default(inches(3)),
+  mortise_span: lengthSchema(0.1, 48).default(inches(6)),
+  mortise_offsets: z.array(lengthSchema(0, 48)).min(1).max(8).default([inches(0)]),
+
+  // Angled mortises, in degrees. Tilt leans the mortise across the board
+  // (positive toward the fence) and splay along it (positive toward the
+  // right-hand end); either sets the plate on a wedge so the router follows.
+  // Rotation skews the mortise in the plane of the face, counterclockwise
+  // from the fence.
+  tilt_angle: z.number().min(-45).max(45).default(0),
+  splay_angle: z.number().min(-45).max(45).default(0),
+  mortise_rotation: z.number().min(-90).max(90).default(0),
+
+  // Template mode. "loose_tenon" derives the mortise size from the tenon
+  // stock and builds templates for both mating boards. "through" cuts a
+  // through mortise halfway from each face of a board through_thickness
+  // thick, with a template that registers the same way up or turned over.
+  template_mode: z.enum(["mortise", "loose_tenon", "hinge", "through"]).default("mortise"),
+  through_thickness: lengthSchema(0.25, 8).default(inches(0.75)),
+
+  // Loose-tenon (Domino-style) joint inputs
+  tenon_thickness: lengthSchema(0.1, 2).default(inches(0.25)),
+  tenon_width: lengthSchema(0.1, 10).default(inches(1)),
+  tenon_length: lengthSchema(0.1, 10).default(inches(2)),
+  depth_allowance: lengthSchema(0, 1).default(inches(0.0625)),
+  loose_tenon_layout: z.enum(["pair", "reversible"]).default("pair"),
+  reference_marks: z.boolean().default(true),
+
+  // Butt-hinge mortise inputs. A catalog size fills in the leaf; "custom"
+  // uses the hinge_leaf_* fields. The setback is measured from the door face
+  // the fence rides on to the near side of the mortise.
+  hinge_size: z.enum([...HINGE_SIZES, "custom"]).default("3.5x3.5"),
+  hinge_leaf_length: lengthSchema(0.5, 12).default(inches(3.5)),
+  hinge_leaf_width: lengthSchema(0.25, 4).default(inches(1.375)),
+  hinge_depth: lengthSchema(0.01, 0.5).default(inches(0.095)),
+  hinge_corner_radius: lengthSchema(0, 1).default(inches(0.25)),
+  hinge_corners: z.enum(["square", "radiused"]).default("radiused"),
+  hinge_setback: lengthSchema(0, 2).default(inches(0)),
+
+  // How inch lengths are written on the label and in the form: the finest
+  // fraction to use and what to do with values between fractions
+  fraction_precision: z
+    .custom<FractionDenominator>(value => FRACTION_DENOMINATORS.includes(value as FractionDenominator),
+      "Must be 2, 4, 8, 16, 32 or 64")
+    .default(64),
+  fraction_style: z.enum(FRACTION_STYLES).default("fraction"),
+
+  // The label on the top face: an optional project name or part ID, then
+  // the chosen dimension lines. label_size is OpenSCAD's text size in mm, an
+  // upper bound; the text shrinks where the plate has no room for it.
+  label_title: z.string().trim().max(40).default(""),
+  label_fields: z.array(z.enum(LABEL_FIELDS)).default([...LABEL_FIELDS]),
+  label_font: z.enum(LABEL_FONTS).default("Liberation Sans"),
+  label_size: z.number().min(1.5).max(12).default(3),
+  label_style: z.enum(LABEL_STYLES).default("engrave"),
+
+  // Alignment aids: V-groove centerlines along and across each mortise,
+  // ticks where each mortise ends, V-notches where the centerlines meet the
+  // plate edges and fence, and a ruler along the top of the fence
+  centerlines: z.boolean().default(false),
+  end_ticks: z.boolean().default(false),
+  sight_notches: z.boolean().default(false),
+  fence_ruler: z.boolean().default(false),
+
+  // Ways to fix the template down: countersunk screw holes and clamp slots,
+  // kept out from under a router base of router_base_diameter, and pockets
+  // for adhesive rubber pads on the underside
+  screw_holes: z.boolean().default(false),
+  clamp_slots: z.boolean().default(false),
+  pad_pockets: z.boolean().default(false),
+  router_base_diameter: lengthSchema(2, 12).default(inches(6)),
+
+  // The fence: a single fence against one face, a second one opposite it for
+  // stock of stock_thickness (centering the mortise in it when
+  // center_in_stock), or a bar bolted through slots that let it move
+  // fence_adjustment across the plate. An end stop can register the board's
+  // end end_stop_distance from the nearest mortise.
+  fence_type: z.enum(["single", "double", "adjustable"]).default("single"),
+  fence_height: lengthSchema(0.25, 3).default(inches(0.5)),
+  fence_thickness: lengthSchema(0.125, 1).default(inches(0.375)),
+  stock_thickness: lengthSchema(0.25, 8).default(inches(1.75)),
+  center_in_stock: z.boolean().default(true),
+  fence_adjustment: lengthSchema(0.25, 3).default(inches(1)),
+  end_stop: z.enum(["none", "left", "right"]).default("none"),
+  end_stop_distance: lengthSchema(0, 24).default(inches(1)),
+});
+
+// The cross-field rules in ./validation lay the template out, so they only
+// run once the field checks pass; zod runs refinements after a failed
+// min/max too, on values the layout can't handle
+function templateRules(params: MortiseTemplate, ctx: z.RefinementCtx) {
+  if (mortiseTemplateSchema.safeParse(params).success) checkTemplateRules(params, ctx);
+}
+
+// Parameters that can actually be built: the field checks above plus the
+// cross-field rules
+export const validatedTemplateSchema = mortiseTemplateSchema.superRefine(templateRules);
+
+// Output formats offered by /api/generate
+export const exportFormatSchema = z.enum(["stl", "3mf", "dxf", "svg", "pdf"]);
+
+export const generateRequestSchema = mortiseTemplateSchema.extend({
+  format: exportFormatSchema.default("stl"),
+  // Paper size for PDF patterns; defaults to letter for imperial, A4 for metric
+  paper_size: z.enum(["letter", "a4"]).optional(),
+  // 3MF only: model title and a separate body for the engraved label
+  template_name: z.string().trim().min(1).max(100).optional(),
+  color_label: z.boolean().default(false),
+}).superRefine(templateRules);
+
+// Schema for a named parameter set in the saved template library
+export const templateNameSchema = z.string().trim().min(1).max(100);
+
+export const savedTemplateSchema = mortiseTemplateSchema.extend({
+  name: templateNameSchema,
+});
+
+export const renameTemplateSchema = z.object({
+  name: templateNameSchema,
 });
 
 // Database table definition
 export const mortiseTemplates = pgTable('mortise_templates', {
   id: serial('id').primaryKey(),
+  name: text('name').notNull().default('Untitled'),
   unit_system: text('unit_system', { enum: ['imperial', 'metric'] }).notNull(),
-  bushing_OD_in: decimal('bushing_od_in', { precision: 10, scale: 4 }).notNull(),
-  bit_diameter_in: decimal('bit_diameter_in', { precision: 10, scale: 4 }).notNull(),
-  mortise_length_in: decimal('mortise_length_in', { precision: 10, scale: 4 }).notNull(),
-  mortise_width_in: decimal('mortise_width_in', { precision: 10, scale: 4 }).notNull(),
-  edge_distance_in: decimal('edge_distance_in', { precision: 10, scale: 4 }).notNull(),
+  // Lengths are stored in length_unit, the unit of the row's unit system
+  length_unit: text('length_unit', { enum: ['in', 'mm'] }).notNull().default('in'),
+  bushing_OD: decimal('bushing_od', { precision: 12, scale: 6 }).notNull(),
+  bit_diameter: decimal('bit_diameter', { precision: 12, scale: 6 }).notNull(),
+  mortise_length: decimal('mortise_length', { precision: 12, scale: 6 }).notNull(),
+  mortise_width: decimal('mortise_width', { precision: 12, scale: 6 }).notNull(),
+  edge_distance: decimal('edge_distance', { precision: 12, scale: 6 }).notNull(),
   edge_position: text('edge_position', { enum: ['left', 'right'] }).notNull(),
-  extension_length_in: decimal('extension_length_in', { precision: 10, scale: 4 }).notNull(),
-  extension_width_in: decimal('extension_width_in', { precision: 10, scale: 4 }).notNull(),
-  template_thickness_in: decimal('template_thickness_in', { precision: 10, scale: 4 }).notNull(),
+  extension_length: decimal('extension_length', { precision: 12, scale: 6 }).notNull(),
+  extension_width: decimal('extension_width', { precision: 12, scale: 6 }).notNull(),
+  template_thickness: decimal('template_thickness', { precision: 12, scale: 6 }).notNull(),
+  // Mode-specific parameters that don't have a column of their own
+  options: jsonb('options').$type<Record<string, unknown>>().notNull().default({}),
   created_at: timestamp('created_at').defaultNow(),
+  updated_at: timestamp('updated_at').defaultNow(),
 });
 
 // Types for database operations
 export type MortiseTemplate = z.infer<typeof mortiseTemplateSchema>;
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
 export type InsertMortiseTemplate = z.infer<typeof insertMortiseTemplateSchema>;
 export type DBMortiseTemplate = typeof mortiseTemplates.$inferSelect;
+export type SavedTemplate = MortiseTemplate & { id: number; name: string };
+
+// Render jobs, as reported by /api/jobs and its event stream
+export type RenderJobStatus = "queued" | "running" | "done" | "failed";
+
+export interface RenderDiagnostic {
+  level: "error" | "warning" | "info";
+  message: string;
+  line?: number;
+}
+
+// Printability warnings for the planned geometry, worked out before printing
+export interface ManufacturabilityIssue {
+  level: "error" | "warning";
+  code: "bed_size" | "thin_wall" | "thin_plate" | "thin_fence" | "text_too_small" | "label_shrunk" | "mounting_skipped" | "plate_bridged";
+  message: string;
+}
+
+export interface ManufacturabilityReport {
+  issues: ManufacturabilityIssue[];
+  printer: { bedX: number; bedY: number; nozzle: number; minWall: number };
+}
+
+export interface RenderJobSnapshot {
+  id: string;
+  status: RenderJobStatus;
+  progress: number;
+  stage: string;
+  previewUrl?: string;
+  cached?: boolean;
+  report?: ManufacturabilityReport;
+  error?: string;
+  diagnostics?: RenderDiagnostic[];
+  log: string[];
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
 
 // Schema for inserting new templates
 export const insertMortiseTemplateSchema = createInsertSchema(mortiseTemplates)
   .extend(mortiseTemplateSchema.shape)
   .omit({ 
     id: true, 
-    created_at: true 
+    created_at: true,
+    updated_at: true
   });
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { combine, convert, inches, lengthSchema, millimetres, toInches, toMm, unitFor } from "./units";
+
+describe("units", () => {
+  it("converts between inches and millimetres", () => {
+    expect(toMm(inches(1))).toBe(25.4);
+    expect(toMm(millimetres(44.45))).toBe(44.45);
+    expect(toInches(millimetres(25.4))).toBe(1);
+    expect(toInches(inches(0.3125))).toBe(0.3125);
+  });
+
+  it("leaves a length already in the unit untouched", () => {
+    const length = millimetres(44.45);
+    expect(convert(length, "mm")).toBe(length);
+    expect(convert(inches(1.75), "mm")).toEqual({ value: expect.closeTo(44.45, 9), unit: "mm" });
+    expect(convert(millimetres(12.7), "in")).toEqual(inches(0.5));
+  });
+
+  it("keeps arithmetic in a shared unit exact", () => {
+    expect(combine(inches(0.3125), inches(0.25), (a, b) => (a - b) / 2)).toEqual(inches(1 / 32));
+    expect(combine(millimetres(10), millimetres(6), (a, b) => (a - b) / 2)).toEqual(millimetres(2));
+    expect(combine(inches(1), millimetres(4.6), (a, b) => a + b)).toEqual(millimetres(30));
+  });
+
+  it("picks the unit system's unit", () => {
+    expect(unitFor("imperial")).toBe("in");
+    expect(unitFor("metric")).toBe("mm");
+  });
+});
+
+describe("lengthSchema", () => {
+  const schema = lengthSchema(0.1, 2);
+
+  it("checks the range in inches whatever the unit", () => {
+    expect(schema.safeParse(inches(0.1)).success).toBe(true);
+    expect(schema.safeParse(millimetres(50.8)).success).toBe(true);
+    expect(schema.safeParse(millimetres(2.54)).success).toBe(true);
+    expect(schema.safeParse(millimetres(2.5)).success).toBe(false);
+    expect(schema.safeParse(inches(2.01)).success).toBe(false);
+  });
+
+  it("gives the range in both units", () => {
+    const result = schema.safeParse(inches(3));
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toBe('Must be between 0.1" and 2" (2.54 to 50.8 mm)');
+  });
+});
@@ -0,0 +1,56 @@
+import { z } from "zod";
+
+// Lengths carry their own unit, so a value typed in millimetres stays exactly
+// that many millimetres from the form to the generated model. Conversions
+// happen only where two units meet.
+
+export const INCH = 25.4;
+
+export const lengthUnitSchema = z.enum(["in", "mm"]);
+export type LengthUnit = z.infer<typeof lengthUnitSchema>;
+
+export const measurementSchema = z.object({
+  value: z.number().finite(),
+  unit: lengthUnitSchema,
+});
+export type Measurement = z.infer<typeof measurementSchema>;
+
+export const inches = (value: number): Measurement => ({ value, unit: "in" });
+export const millimetres = (value: number): Measurement => ({ value, unit: "mm" });
+
+export function toMm(length: Measurement): number {
+  return length.unit === "mm" ? length.value : length.value * INCH;
+}
+
+export function toInches(length: Measurement): number {
+  return length.unit === "in" ? length.value : length.value / INCH;
+}
+
+// Express a length in the given unit; a no-op when it is already in it
+export function convert(length: Measurement, unit: LengthUnit): Measurement {
+  if (length.unit === unit) return length;
+  return { value: unit === "mm" ? toMm(length) : toInches(length), unit };
+}
+
+// The unit lengths are entered and shown in for a unit system
+export function unitFor(unitSystem: "imperial" | "metric"): LengthUnit {
+  return unitSystem === "metric" ? "mm" : "in";
+}
+
+// Arithmetic on two lengths, kept in their shared unit when they have one so
+// that e.g. (5/16" - 1/4") / 2 is exactly 1/32"
+export function combine(a: Measurement, b: Measurement, op: (a: number, b: number) => number): Measurement {
+  if (a.unit === b.unit) return { value: op(a.value, b.value), unit: a.unit };
+  return millimetres(op(toMm(a), toMm(b)));
+}
+
+// A length field whose range is given in inches, whatever unit it is entered in
+export function lengthSchema(min_in: number, max_in: number) {
+  const mm = (value: number) => Number((value * INCH).toFixed(2));
+  // Allow for float noise from values converted between units
+  const epsilon = 1e-9;
+  return measurementSchema.refine(
+    length => toInches(length) >= min_in - epsilon && toInches(length) <= max_in + epsilon,
+    { message: `Must be between ${min_in}" and ${max_in}" (${mm(min_in)} to ${mm(max_in)} mm)` },
+  );
+}
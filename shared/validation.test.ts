@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { generateRequestSchema, mortiseTemplateSchema, validatedTemplateSchema } from "./schema";
+import { computeTemplateLayout, plateWalls } from "./geometry";
+import { templateIssues, type TemplateRule } from "./validation";
+
+const base = {
+  unit_system: "imperial",
+  bushing_OD: { value: 0.3125, unit: "in" },
+  bit_diameter: { value: 0.25, unit: "in" },
+  mortise_length: { value: 1.75, unit: "in" },
+  mortise_width: { value: 0.375, unit: "in" },
+  edge_distance: { value: 0.25, unit: "in" },
+  edge_position: "right",
+  extension_length: { value: 3, unit: "in" },
+  extension_width: { value: 3, unit: "in" },
+  template_thickness: { value: 0.25, unit: "in" },
+};
+
+const inches = (value: number) => ({ value, unit: "in" });
+
+// The issues validating these changes to the base template reports
+function issues(changes: object) {
+  const result = validatedTemplateSchema.safeParse({ ...base, ...changes });
+  return result.success ? [] : templateIssues(result.error);
+}
+
+const rules = (changes: object) => issues(changes).map(issue => issue.rule);
+
+describe("checkTemplateRules", () => {
+  it("accepts a buildable template", () => {
+    expect(issues({})).toEqual([]);
+  });
+
+  const cases: Array<[TemplateRule, string, object]> = [
+    ["bushing_smaller_than_bit", "bushing_OD", { bushing_OD: inches(0.2) }],
+    ["mortise_narrower_than_bit", "mortise_width", { mortise_width: inches(0.2) }],
+    ["cutout_outside_plate", "edge_distance", { bushing_OD: inches(0.75), edge_distance: inches(0.1) }],
+    ["cutout_outside_plate", "hinge_setback", { template_mode: "hinge", bushing_OD: inches(1.25), hinge_setback: inches(0) }],
+    ["wall_too_thin", "extension_width", { extension_width: inches(0.1) }],
+    ["wall_too_thin", "extension_length", { extension_length: inches(0.1) }],
+    ["wall_too_thin", "mortise_spacing", { mortise_count: 2, mortise_spacing: inches(1.5) }],
+    ["cutout_outside_stock", "stock_thickness", {
+      fence_type: "double", center_in_stock: false, stock_thickness: inches(0.5),
+    }],
+    ["fence_too_thin", "fence_thickness", {
+      fence_type: "adjustable", edge_distance: inches(1), fence_thickness: inches(0.125),
+    }],
+    ["end_stop_misplaced", "end_stop_distance", {
+      end_stop: "left", bushing_OD: inches(0.75), edge_distance: inches(0.5), end_stop_distance: inches(0),
+    }],
+    ["end_stop_misplaced", "end_stop_distance", { end_stop: "left", end_stop_distance: inches(12) }],
+    ["fence_one_sided", "fence_type", { template_mode: "through", fence_type: "adjustable", edge_distance: inches(1) }],
+    ["angle_too_steep", "splay_angle", { tilt_angle: 25, splay_angle: 25 }],
+    ["angle_too_steep", "tilt_angle", { tilt_angle: 35 }],
+    ["angle_unsupported", "template_mode", { template_mode: "hinge", tilt_angle: 10 }],
+    ["angle_unsupported", "template_mode", { template_mode: "through", splay_angle: 10 }],
+    ["angle_unsupported", "fence_type", { fence_type: "adjustable", edge_distance: inches(1), tilt_angle: 10 }],
+  ];
+
+  for (const [rule, field, changes] of cases) {
+    it(`reports ${rule} on ${field} for ${JSON.stringify(changes)}`, () => {
+      expect(issues(changes)).toContainEqual({ field, rule, message: expect.any(String) });
+    });
+  }
+
+  it("reports overlapping mortises", () => {
+    const overlap = issues({ mortise_count: 2, mortise_spacing: inches(1) })
+      .find(issue => issue.field === "mortise_spacing");
+    expect(overlap).toMatchObject({ rule: "wall_too_thin", message: "The mortises overlap; space them further apart" });
+  });
+
+  it("allows a hinge mortise to run into the fence up to its outer face", () => {
+    expect(rules({ template_mode: "hinge", hinge_setback: inches(0) })).not.toContain("cutout_outside_plate");
+  });
+
+  it("centers the mortise in double-fenced stock instead of reporting it", () => {
+    expect(rules({ fence_type: "double", stock_thickness: inches(0.5) })).not.toContain("cutout_outside_stock");
+  });
+});
+
+describe("field checks that fail before the cross-field rules", () => {
+  const payloads: Record<string, object> = {
+    "no mortises": { mortise_count: 0 },
+    "no explicit offsets": { spacing_mode: "explicit", mortise_offsets: [] },
+  };
+
+  for (const [name, changes] of Object.entries(payloads)) {
+    it(`reports ${name} as a field issue without laying the template out`, () => {
+      const found = issues(changes);
+      expect(found.length).toBeGreaterThan(0);
+      expect(found.every(issue => issue.rule === undefined)).toBe(true);
+
+      const request = generateRequestSchema.safeParse({ ...base, ...changes, format: "stl" });
+      expect(request.success).toBe(false);
+    });
+  }
+});
+
+describe("plateWalls", () => {
+  it("treats a plate with no cutouts as all wall", () => {
+    const layout = { ...computeTemplateLayout(mortiseTemplateSchema.parse(base)), cutouts: [] };
+    const walls = plateWalls(layout);
+    expect(walls.beside).toBe(layout.total_width);
+    expect(walls.ends).toBe(layout.total_length);
+    expect(walls.between).toBe(Infinity);
+  });
+});
@@ -0,0 +1,164 @@
+import { z, type ZodError } from "zod";
+import { type MortiseTemplate } from "./schema";
+import { bushingOffset, computeTemplateLayout, plateWalls, resolveMortise, FENCE_BOLT_CLEARANCE, INCH } from "./geometry";
+import { toMm } from "./units";
+import { decimalToFraction } from "./format";
+
+// Cross-field rules that the per-field min/max checks in mortiseTemplateSchema
+// can't express. Each issue carries its rule code in `params.rule` and points
+// at the field the user should change.
+
+export type TemplateRule =
+  | "bushing_smaller_than_bit"
+  | "mortise_narrower_than_bit"
+  | "cutout_outside_plate"
+  | "wall_too_thin"
+  | "cutout_outside_stock"
+  | "fence_too_thin"
+  | "end_stop_misplaced"
+  | "fence_one_sided"
+  | "angle_too_steep"
+  | "angle_unsupported";
+
+// Thinnest plate we leave around a cutout; thinner walls snap or flex
+export const MIN_WALL_THICKNESS_IN = 0.25;
+
+// Steepest a router can be leaned on a wedge, in degrees from upright:
+// beyond this the base rides on its edge and the bushing binds in the cutout
+export const MAX_ROUTER_ANGLE = 30;
+
+export interface TemplateIssue {
+  field: string;
+  rule?: TemplateRule;
+  message: string;
+}
+
+type TemplateField = keyof MortiseTemplate;
+
+// The input that sets the mortise width in each mode
+function widthField(params: MortiseTemplate): TemplateField {
+  if (params.template_mode === "loose_tenon") return "tenon_thickness";
+  if (params.template_mode === "hinge") {
+    return params.hinge_size === "custom" ? "hinge_leaf_width" : "hinge_size";
+  }
+  return "mortise_width";
+}
+
+function spacingField(params: MortiseTemplate): TemplateField {
+  if (params.spacing_mode === "explicit") return "mortise_offsets";
+  return params.spacing_mode === "equal" ? "mortise_span" : "mortise_spacing";
+}
+
+export function checkTemplateRules(params: MortiseTemplate, ctx: z.RefinementCtx) {
+  const fail = (field: TemplateField, rule: TemplateRule, message: string) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message, params: { rule } });
+
+  const minWallText = `${decimalToFraction(MIN_WALL_THICKNESS_IN)}" (${(MIN_WALL_THICKNESS_IN * INCH).toFixed(1)} mm)`;
+  const mortise = resolveMortise(params);
+  const offset = toMm(bushingOffset(params));
+
+  if (offset < 0) {
+    fail("bushing_OD", "bushing_smaller_than_bit",
+      "The guide bushing must be at least as large as the router bit");
+  }
+
+  if (toMm(mortise.width) < toMm(params.bit_diameter)) {
+    fail(widthField(params), "mortise_narrower_than_bit",
+      "The mortise can't be narrower than the router bit");
+  }
+
+  // A hinge mortise may run out at the door face, cutting into the fence up
+  // to its outer face; every other mortise stays clear of the fence. An
+  // adjustable fence must stay clear wherever it is set.
+  const hinge = params.template_mode === "hinge";
+  const fenceThickness = toMm(params.fence_thickness);
+  const fenceLimit = hinge ? -fenceThickness : 0;
+  const adjustable = params.fence_type === "adjustable";
+  const travel = adjustable ? toMm(params.fence_adjustment) : 0;
+  if (toMm(mortise.edge_distance) - offset - travel / 2 < fenceLimit) {
+    fail(hinge ? "hinge_setback" : "edge_distance", "cutout_outside_plate",
+      hinge
+        ? "The setback puts the cutout past the outside of the fence"
+        : adjustable
+          ? "The fence can be set over the cutout; the edge distance must be at least the bushing offset plus half the fence adjustment"
+          : "The edge distance puts the cutout into the fence; it must be at least the bushing offset");
+  }
+
+  if (params.fence_type === "double"
+    && toMm(mortise.edge_distance) + toMm(mortise.width) + offset > toMm(params.stock_thickness)) {
+    fail("stock_thickness", "cutout_outside_stock",
+      "The cutout runs into the second fence; the mortise doesn't fit in stock this thick");
+  }
+
+  // A bolt-on bar sits on one face only, so it can't register the template
+  // once it is turned over
+  if (adjustable && params.template_mode === "through") {
+    fail("fence_type", "fence_one_sided",
+      "A through-mortise template is used both ways up; choose a single or double fence");
+  }
+
+  // The router leans by the compound of tilt and splay
+  const radians = (degrees: number) => degrees * Math.PI / 180;
+  const lean = Math.acos(Math.cos(radians(params.tilt_angle)) * Math.cos(radians(params.splay_angle))) * 180 / Math.PI;
+  if (lean > MAX_ROUTER_ANGLE + 1e-9) {
+    fail(params.splay_angle === 0 ? "tilt_angle" : "splay_angle", "angle_too_steep",
+      `Tilt and splay together lean the router ${lean.toFixed(1)}°; a router base can't work past ${MAX_ROUTER_ANGLE}°`);
+  }
+  // The wedge needs the fence fixed to it and only works from one face
+  if (params.tilt_angle !== 0 || params.splay_angle !== 0) {
+    if (params.template_mode === "hinge" || params.template_mode === "through") {
+      fail("template_mode", "angle_unsupported",
+        params.template_mode === "hinge"
+          ? "Hinge mortises are cut square to the face; set tilt and splay to 0"
+          : "A through-mortise template is turned over, which reverses its angles; set tilt and splay to 0");
+    } else if (adjustable) {
+      fail("fence_type", "angle_unsupported",
+        "An adjustable fence can't be bolted to a wedge; choose a single or double fence");
+    }
+  }
+
+  // The bar needs some wall either side of its bolt holes
+  if (adjustable && fenceThickness < FENCE_BOLT_CLEARANCE + 2) {
+    fail("fence_thickness", "fence_too_thin",
+      `An adjustable fence must be at least ${(FENCE_BOLT_CLEARANCE + 2).toFixed(1)} mm thick to take its bolts`);
+  }
+
+  const layout = computeTemplateLayout(params);
+  if (params.end_stop !== "none") {
+    // The stop must stand on the plate and leave the cutout open
+    const stop = layout.blocks[layout.blocks.length - 1];
+    const distance = toMm(params.end_stop_distance);
+    if (distance < offset) {
+      fail("end_stop_distance", "end_stop_misplaced",
+        "The end stop would cover the cutout; it must be at least the bushing offset past the mortise");
+    } else if (stop.x < 0 || stop.x + stop.length > layout.total_length) {
+      fail("end_stop_distance", "end_stop_misplaced",
+        "The end stop falls off the end of the plate; lengthen the extension or move the stop closer");
+    }
+  }
+
+  const walls = plateWalls(layout);
+  const minWall = MIN_WALL_THICKNESS_IN * INCH;
+  // Beside a double-fenced cutout is the second fence, checked above
+  if (params.fence_type !== "double" && walls.beside < minWall) {
+    fail("extension_width", "wall_too_thin", `Leave at least ${minWallText} of plate beside the cutout`);
+  }
+  if (walls.ends < minWall) {
+    fail("extension_length", "wall_too_thin", `Leave at least ${minWallText} of plate past each end of the cutout`);
+  }
+  if (walls.between < minWall) {
+    fail(spacingField(params), "wall_too_thin",
+      walls.between < 0
+        ? "The mortises overlap; space them further apart"
+        : `Leave at least ${minWallText} of plate between neighbouring cutouts`);
+  }
+}
+
+// Flatten a ZodError into per-field issues for API responses
+export function templateIssues(error: ZodError): TemplateIssue[] {
+  return error.issues.map(issue => ({
+    field: issue.path.join("."),
+    ...(issue.code === z.ZodIssueCode.custom && issue.params?.rule ? { rule: issue.params.rule as TemplateRule } : {}),
+    message: issue.message,
+  }));
+}